@@ -0,0 +1,161 @@
+// HTTP transport for the Shortcut API, configured through the environment:
+//   SHORTCUT_TIMEOUT_MS=30000        abort a request that takes longer than this
+//   SHORTCUT_RETRY_BUDGET_MS=20000   total time spent waiting between retries
+//   SHORTCUT_DEBUG=1                 log method, path, status and latency to stderr
+//   SHORTCUT_DEBUG_LOG=/path/to.log  append those lines to a file instead
+// Rate limits (429) and 503s are retried for every call; network errors, timeouts,
+// 502 and 504 only for calls that are safe to repeat, so a create is never sent twice.
+import { appendFileSync } from "node:fs";
+
+export class ShortcutApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "ShortcutApiError";
+  }
+}
+
+export interface HttpRequest {
+  method: string;
+  baseUrl: string;
+  path: string;
+  token: string;
+  // JSON, or multipart form data for uploads
+  body?: Record<string, unknown> | FormData;
+  // Whether repeating the call after an unknown outcome is harmless
+  idempotent: boolean;
+}
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 500;
+const ALWAYS_RETRY = [429, 503];
+const RETRY_IF_IDEMPOTENT = [502, 504];
+
+function envMs(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 && process.env[name] !== "" ? value : fallback;
+}
+
+function debugLog(line: string): void {
+  const file = process.env.SHORTCUT_DEBUG_LOG;
+  if (file) {
+    try {
+      appendFileSync(file, `${new Date().toISOString()} ${line}\n`);
+    } catch {
+      // Logging must never fail a call
+    }
+  } else if (/^(1|true|yes)$/i.test(process.env.SHORTCUT_DEBUG || "")) {
+    console.error(`[shortcut] ${line}`);
+  }
+}
+
+// Exponential backoff with full jitter: a random wait up to 500ms, 1s, 2s, ...
+function backoffMs(attempt: number): number {
+  return Math.round(Math.random() * BASE_DELAY_MS * 2 ** (attempt - 1));
+}
+
+// Shortcut errors look like {"message": "...", "errors": {"field": "problem"}}
+function errorMessage(status: number, text: string): string {
+  try {
+    const parsed = JSON.parse(text) as Record<string, unknown>;
+    const parts: string[] = [];
+    const message = parsed.message ?? parsed.error;
+    if (typeof message === "string") parts.push(message);
+    if (parsed.errors && typeof parsed.errors === "object") {
+      for (const [field, problem] of Object.entries(parsed.errors as Record<string, unknown>)) {
+        parts.push(`${field}: ${typeof problem === "string" ? problem : JSON.stringify(problem)}`);
+      }
+    }
+    if (parts.length > 0) return parts.join("; ");
+  } catch {
+    // Not JSON; fall back to the text below
+  }
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  if (!trimmed) return status === 404 ? "Not found" : `HTTP ${status}`;
+  return trimmed.length > 200 ? `${trimmed.slice(0, 200)}…` : trimmed;
+}
+
+function parseBody(text: string): unknown {
+  // Handle empty responses (204 No Content)
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Send one API call, retrying transient failures; returns parsed JSON, text, or null when empty
+export async function sendRequest(req: HttpRequest): Promise<unknown> {
+  const timeoutMs = envMs("SHORTCUT_TIMEOUT_MS", 30_000);
+  let budgetMs = envMs("SHORTCUT_RETRY_BUDGET_MS", 20_000);
+  const call = `${req.method} ${req.path.split("?")[0]}`;
+
+  // Sleep before the next attempt, or give up with the failure once attempts or budget run out
+  const waitOrGiveUp = async (failure: Error, attempt: number, waitMs: number): Promise<void> => {
+    if (attempt >= MAX_ATTEMPTS || waitMs > budgetMs) throw failure;
+    budgetMs -= waitMs;
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    const started = Date.now();
+    const suffix = attempt > 1 ? ` (attempt ${attempt})` : "";
+    let response: Response;
+    let text: string;
+
+    try {
+      const multipart = req.body instanceof FormData;
+      response = await fetch(`${req.baseUrl}${req.path}`, {
+        method: req.method,
+        // fetch sets the multipart boundary itself
+        headers: multipart
+          ? { "Shortcut-Token": req.token }
+          : { "Content-Type": "application/json", "Shortcut-Token": req.token },
+        body: multipart ? (req.body as FormData) : req.body ? JSON.stringify(req.body) : undefined,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      text = await response.text();
+    } catch (error) {
+      const timedOut = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+      const cause =
+        error instanceof Error ? ((error.cause as Error | undefined)?.message ?? error.message) : String(error);
+      const outcome = timedOut ? "timeout" : "network error";
+      debugLog(`${req.method} ${req.path} ${outcome} ${Date.now() - started}ms${suffix}`);
+
+      const failure = new Error(
+        timedOut
+          ? `Shortcut API timed out after ${timeoutMs}ms on ${call}`
+          : `Could not reach Shortcut on ${call}: ${cause}`
+      );
+      if (!req.idempotent) throw failure;
+      await waitOrGiveUp(failure, attempt, backoffMs(attempt));
+      continue;
+    }
+
+    debugLog(`${req.method} ${req.path} ${response.status} ${Date.now() - started}ms${suffix}`);
+    if (response.ok) return parseBody(text);
+
+    const failure = new ShortcutApiError(
+      response.status,
+      `Shortcut API ${response.status} on ${call}: ${errorMessage(response.status, text)}`
+    );
+    const retryable =
+      ALWAYS_RETRY.includes(response.status) || (req.idempotent && RETRY_IF_IDEMPOTENT.includes(response.status));
+    if (!retryable) throw failure;
+
+    // Honour Retry-After, but never sleep past the budget inside a tool call
+    const header = response.headers.get("Retry-After");
+    if (header !== null && Number.isFinite(Number(header))) {
+      const waitMs = Number(header) * 1000;
+      if (waitMs > budgetMs) {
+        throw new ShortcutApiError(response.status, `${failure.message}; retry after ${header}s`);
+      }
+      await waitOrGiveUp(failure, attempt, waitMs);
+    } else {
+      await waitOrGiveUp(failure, attempt, backoffMs(attempt));
+    }
+  }
+}
@@ -0,0 +1,110 @@
+// Safety policy for Shortcut API calls, configured through the environment:
+//   SHORTCUT_READ_ONLY=1         only reads (GET, and POST searches) are allowed
+//   SHORTCUT_API_ALLOW=...       if set, calls must match one of these patterns
+//   SHORTCUT_API_DENY=...        calls matching these patterns are blocked
+//   SHORTCUT_API_CONFIRM=...     calls matching these also need "confirm": true
+// Patterns are comma-separated "METHOD /path" pairs; "*" matches anything,
+// e.g. "DELETE *", "PUT /stories/bulk", "* /epics/*". Deletes and archiving always need confirm.
+
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(`Blocked by policy: ${message}`);
+    this.name = "PolicyError";
+  }
+}
+
+interface Policy {
+  readOnly: boolean;
+  allow: string[] | null;
+  deny: string[];
+  confirm: string[];
+}
+
+const ALWAYS_CONFIRM = "DELETE *";
+
+// POST endpoints that only read data
+const READ_ONLY_POSTS = ["/stories/search", "/epics/search"];
+
+// Whether a call only reads data
+export function isReadOnlyCall(method: string, path: string): boolean {
+  const upper = method.toUpperCase();
+  return upper === "GET" || (upper === "POST" && READ_ONLY_POSTS.includes(path.split("?")[0]));
+}
+
+// The path a call actually reaches below the API base. fetch resolves "." and ".."
+// segments (percent-encoded ones too) before sending, so rules must match this, not the input.
+export function resolveApiPath(baseUrl: string, pathWithQuery: string): string {
+  const prefix = new URL(baseUrl).pathname.replace(/\/$/, "");
+  const url = new URL(`${baseUrl.replace(/\/$/, "")}${pathWithQuery}`);
+  if (url.pathname !== prefix && !url.pathname.startsWith(`${prefix}/`)) {
+    throw new PolicyError(`${pathWithQuery} resolves outside the Shortcut API`);
+  }
+  return `${url.pathname.slice(prefix.length) || "/"}${url.search}`;
+}
+
+function parsePatterns(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+// Read per call so the policy can change without restarting (and in tests)
+export function loadPolicy(): Policy {
+  const readOnly = /^(1|true|yes)$/i.test(process.env.SHORTCUT_READ_ONLY || "");
+  const allow = parsePatterns(process.env.SHORTCUT_API_ALLOW);
+
+  return {
+    readOnly,
+    allow: allow.length > 0 ? allow : null,
+    deny: parsePatterns(process.env.SHORTCUT_API_DENY),
+    // Additions to the built-in rules; they never lift the confirm on deletes
+    confirm: [ALWAYS_CONFIRM, ...parsePatterns(process.env.SHORTCUT_API_CONFIRM)],
+  };
+}
+
+function matchesPattern(pattern: string, method: string, path: string): boolean {
+  const [patternMethod, patternPath = "*"] = pattern.split(/\s+/, 2);
+  if (patternMethod !== "*" && patternMethod.toUpperCase() !== method) return false;
+
+  const regex = new RegExp(
+    "^" + patternPath.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$"
+  );
+  return regex.test(path);
+}
+
+function isArchive(path: string, body?: Record<string, unknown>): boolean {
+  return body?.archived === true || /\/archive\b/.test(path);
+}
+
+// Throws PolicyError when a call is not allowed
+export function checkPolicy(
+  method: string,
+  pathWithQuery: string,
+  body: Record<string, unknown> | undefined,
+  confirmed: boolean
+): void {
+  const policy = loadPolicy();
+  const upper = method.toUpperCase();
+  const path = pathWithQuery.split("?")[0];
+  const call = `${upper} ${path}`;
+
+  if (policy.readOnly && !isReadOnlyCall(upper, path)) {
+    throw new PolicyError(`${call} is a write and the server is read-only (SHORTCUT_READ_ONLY)`);
+  }
+
+  const denied = policy.deny.find((p) => matchesPattern(p, upper, path));
+  if (denied) {
+    throw new PolicyError(`${call} matches deny rule "${denied}"`);
+  }
+
+  if (policy.allow && !policy.allow.some((p) => matchesPattern(p, upper, path))) {
+    throw new PolicyError(`${call} is not in the allowlist (SHORTCUT_API_ALLOW)`);
+  }
+
+  const needsConfirm = isArchive(path, body) || policy.confirm.some((p) => matchesPattern(p, upper, path));
+  if (needsConfirm && !confirmed) {
+    const what = isArchive(path, body) ? "archives data" : "is destructive";
+    throw new PolicyError(`${call} ${what}; repeat the call with "confirm": true`);
+  }
+}
@@ -0,0 +1,105 @@
+// MCP resources and prompts. Resources let clients attach a story, epic, iteration
+// or the workflow list as context; prompts pull the right stories into a conversation.
+// Both go through the shortcut tool's handlers, and neither adds to the tool's token budget.
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { formatWorkflows, runShortcutTool } from "./shortcut.js";
+
+const MARKDOWN = "text/markdown";
+
+// Run a tool action and return its text, throwing its error instead of returning it
+async function runText(args: Record<string, unknown>): Promise<string> {
+  const result = await runShortcutTool(args);
+  const text = result.content.map((c) => (c.type === "text" ? c.text : "")).join("\n");
+  if (result.isError) throw new Error(text.replace(/^Error: /, ""));
+  return text;
+}
+
+function markdown(uri: URL, text: string) {
+  return { contents: [{ uri: uri.href, mimeType: MARKDOWN, text }] };
+}
+
+function variable(value: string | string[]): string {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function userPrompt(text: string) {
+  return { messages: [{ role: "user" as const, content: { type: "text" as const, text } }] };
+}
+
+export function registerResources(server: McpServer): void {
+  server.resource(
+    "story",
+    new ResourceTemplate("shortcut://story/{id}", {
+      // Listing offers your active stories; any story id can be read
+      list: async () => {
+        const { stories } = JSON.parse(await runText({ action: "search", format: "json" })) as {
+          stories: Array<{ id: number; name: string | null; state: string | null }>;
+        };
+        return {
+          resources: stories.map((s) => ({
+            uri: `shortcut://story/${s.id}`,
+            name: `sc-${s.id}: ${s.name || "Untitled"}`,
+            description: s.state ?? undefined,
+            mimeType: MARKDOWN,
+          })),
+        };
+      },
+    }),
+    { description: "A Shortcut story with comments, tasks, relationships and development links", mimeType: MARKDOWN },
+    async (uri, { id }) => markdown(uri, await runText({ action: "get", id: variable(id) }))
+  );
+
+  server.resource(
+    "epic",
+    new ResourceTemplate("shortcut://epic/{id}", { list: undefined }),
+    { description: "A Shortcut epic with progress and its stories", mimeType: MARKDOWN },
+    async (uri, { id }) => markdown(uri, await runText({ action: "epic", id: variable(id) }))
+  );
+
+  server.resource(
+    "iteration",
+    new ResourceTemplate("shortcut://iteration/{id}", { list: undefined }),
+    { description: 'A Shortcut iteration by id, "current" or "next", with burndown', mimeType: MARKDOWN },
+    async (uri, { id }) => markdown(uri, await runText({ action: "iteration", id: variable(id) }))
+  );
+
+  server.resource(
+    "workflows",
+    "shortcut://workflows",
+    { description: "Shortcut workflows and their states", mimeType: MARKDOWN },
+    async (uri) => markdown(uri, await formatWorkflows())
+  );
+}
+
+export function registerPrompts(server: McpServer): void {
+  server.prompt(
+    "start-work",
+    "Start work on a Shortcut story: load it, suggest a branch and plan the first steps",
+    { id: z.string().describe("Story id, sc-id, branch name or Shortcut URL") },
+    async ({ id }) => {
+      const [story, branch] = await Promise.all([
+        runText({ action: "get", id }),
+        runText({ action: "branch", id }),
+      ]);
+      return userPrompt(`I'm starting work on this Shortcut story.
+
+${story}
+
+${branch}
+
+Move the story to its started state and assign it to me if it has no owner (shortcut tool, "update" action). Create the branch above, then outline a short plan based on the description, tasks and open blockers.`);
+    }
+  );
+
+  server.prompt(
+    "standup",
+    "Write a standup update from my Shortcut stories",
+    async () => {
+      const report = await runText({ action: "report", since: "24h" });
+      return userPrompt(`Write my standup update from this Shortcut report: what I finished, what I'm working on, and anything blocked. Keep it to a few bullets per section and mention story ids (sc-123).
+
+${report}`);
+    }
+  );
+}
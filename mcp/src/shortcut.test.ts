@@ -0,0 +1,948 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerPrompts, registerResources } from "./resources.js";
+import { invalidateCache, resolveId, resolveState, runShortcutTool } from "./shortcut.js";
+import { defaultFixture, FakeShortcut } from "./testing/fake-shortcut.js";
+
+const fake = new FakeShortcut();
+
+async function run(args: Record<string, unknown>): Promise<string> {
+  const result = await runShortcutTool(args);
+  const [content] = result.content;
+  assert.equal(content.type, "text");
+  return content.type === "text" ? content.text : "";
+}
+
+before(async () => {
+  process.env.SHORTCUT_API_URL = await fake.start();
+  process.env.SHORTCUT_API_TOKEN = "test-token";
+  process.env.SHORTCUT_CACHE_DIR = "off";
+  process.env.SHORTCUT_CONFIG = join(mkdtempSync(join(tmpdir(), "sc-config-")), "missing.json");
+});
+
+after(() => fake.stop());
+
+beforeEach(() => {
+  fake.data = defaultFixture();
+  fake.requests = [];
+  fake.faults = [];
+  invalidateCache();
+});
+
+describe("resolveId", () => {
+  it("accepts numbers, sc- prefixes and URLs", () => {
+    assert.equal(resolveId("704"), 704);
+    assert.equal(resolveId("sc-704"), 704);
+    assert.equal(resolveId("https://app.shortcut.com/acme/story/704/some-title"), 704);
+    assert.equal(resolveId("https://app.shortcut.com/acme/epic/308"), 308);
+    assert.equal(resolveId("ada2/sc-704/fix-login"), 704);
+  });
+
+  it("rejects input without an id", () => {
+    assert.throws(() => resolveId("abc"), /Invalid ID/);
+  });
+});
+
+describe("resolveState", () => {
+  it("matches exact, partial and alias names", async () => {
+    assert.equal(await resolveState("done"), 500004);
+    assert.equal(await resolveState("in prog"), 500002);
+    assert.equal(await resolveState("wip"), 500002);
+    assert.equal(await resolveState("nonsense"), null);
+  });
+});
+
+describe("search", () => {
+  it("defaults to my unarchived stories", async () => {
+    const text = await run({ action: "search" });
+    assert.match(text, /sc-701/);
+    assert.match(text, /sc-702/);
+    assert.doesNotMatch(text, /sc-703/);
+  });
+
+  it("pages text searches with a cursor", async () => {
+    const first = await run({ action: "search", query: "login", limit: 1 });
+    assert.match(first, /sc-701/);
+    const cursor = first.match(/"cursor":"([^"]+)"/)?.[1];
+    assert.ok(cursor, "expected a next-page cursor");
+
+    const second = await run({ action: "search", cursor });
+    assert.match(second, /sc-703/);
+    assert.doesNotMatch(second, /Next page/);
+  });
+
+  it("keeps text search pages within Shortcut's page_size cap", async () => {
+    const text = await run({ action: "search", query: "login", limit: 100 });
+    assert.match(text, /sc-701/);
+    const request = fake.requests.find((r) => r.path.startsWith("/search/stories"));
+    assert.match(request?.path || "", /page_size=25&/);
+  });
+
+  it("translates structured filters to search params", async () => {
+    await run({
+      action: "search",
+      query: { requester: "grace", labels: ["backend"], team: "platform", created_before: "2026-01-15" },
+    });
+    const body = fake.requests.find((r) => r.path === "/stories/search")?.body as Record<string, unknown>;
+    assert.equal(body.requested_by_id, "u-grace");
+    assert.deepEqual(body.label_ids, [1]);
+    assert.deepEqual(body.group_ids, ["g-platform"]);
+    assert.equal(body.created_at_end, "2026-01-15T00:00:00.000Z");
+
+    fake.requests = [];
+    await run({ action: "search", query: { epic: "auth", iteration: "sprint 12", type: "Bug" } });
+    const refs = fake.requests.find((r) => r.path === "/stories/search")?.body as Record<string, unknown>;
+    assert.deepEqual(refs, { epic_ids: [308], iteration_ids: [142], story_type: "bug" });
+  });
+
+  it("searches each of several states and filters estimate ranges and unowned stories locally", async () => {
+    const states = await run({ action: "search", query: { state: ["ready", "done"] } });
+    assert.match(states, /sc-702[\s\S]*sc-704[\s\S]*sc-703/);
+    assert.doesNotMatch(states, /sc-701/);
+    const searched = fake.requests.filter((r) => r.path === "/stories/search").map((r) => r.body);
+    assert.deepEqual(searched, [{ workflow_state_id: 500001 }, { workflow_state_id: 500004 }]);
+
+    const range = await run({ action: "search", query: { team: "Platform", estimate: { min: 2, max: 4 } } });
+    assert.match(range, /sc-701/);
+    assert.doesNotMatch(range, /sc-702/);
+
+    const unowned = await run({ action: "search", query: { state: "ready", unowned: true }, limit: 1 });
+    assert.match(unowned, /sc-704/);
+    assert.doesNotMatch(unowned, /Next page/);
+  });
+
+  it("refuses local-only filters that no search filter bounds", async () => {
+    for (const query of [{ unowned: true }, { estimate: { min: 3 } }, { fields: { Priority: "High" } }]) {
+      const result = await runShortcutTool({ action: "search", query });
+      assert.equal(result.isError, true);
+      assert.match(JSON.stringify(result.content), /must be combined with owner, requester, state/);
+    }
+    assert.equal(fake.requests.some((r) => r.path === "/stories/search"), false);
+  });
+
+  it("keeps local filters across pages", async () => {
+    const first = await run({ action: "search", query: { state: ["ready", "done"] }, limit: 2 });
+    const cursor = first.match(/"cursor":"([^"]+)"/)?.[1];
+    assert.ok(cursor, "expected a next-page cursor");
+    const second = await run({ action: "search", cursor });
+    assert.match(second, /sc-703/);
+    assert.doesNotMatch(second, /sc-70[124]/);
+  });
+
+  it("rejects unknown filters and values that do not resolve", async () => {
+    const cases: Array<[Record<string, unknown>, RegExp]> = [
+      [{ ownr: "me" }, /Unknown search filter: ownr/],
+      [{ owner: "nobody" }, /Could not find member \\"nobody\\" for owner filter/],
+      [{ state: "Shipped to Mars" }, /State \\"Shipped to Mars\\" not found/],
+      [{ labels: ["infra"] }, /Unknown labels/],
+      [{ team: "Design" }, /Team \\"Design\\" not found. Valid teams: Platform, Mobile/],
+      [{ type: "bugs" }, /Invalid type \\"bugs\\". Valid types: feature, bug, chore/],
+      [{ epic: "Checkout revamp" }, /Epic \\"Checkout revamp\\" not found. Valid: Auth revamp/],
+      [{ iteration: "Sprint 99" }, /Iteration \\"Sprint 99\\" not found/],
+    ];
+    for (const [query, message] of cases) {
+      const result = await runShortcutTool({ action: "search", query });
+      assert.equal(result.isError, true);
+      assert.match(JSON.stringify(result.content), message);
+    }
+    assert.equal(fake.requests.some((r) => r.path === "/stories/search"), false);
+  });
+});
+
+describe("get", () => {
+  it("shows names, tasks and newest comments first", async () => {
+    const text = await run({ action: "get", id: "sc-701" });
+    assert.match(text, /State: In Progress/);
+    assert.match(text, /Epic: Auth revamp \(308\)/);
+    assert.match(text, /Owners: Ada Lovelace \| Requester: Grace Hopper/);
+    assert.match(text, /1\. \[x\] Reproduce locally/);
+    assert.ok(text.indexOf("Looking into it") < text.indexOf("Repro on Safari"));
+  });
+
+  it("lists linked branches, pull requests and commits", async () => {
+    const text = await run({ action: "get", id: "701" });
+    assert.match(text, /Branches: ada\/sc-701\/login-fails-on-safari/);
+    assert.match(text, /PR #42 \[open\] Fix Safari cookie/);
+    assert.match(text, /Commit 0123456 Keep SameSite cookie\n/);
+  });
+});
+
+describe("history", () => {
+  it("renders transitions, diffs and time in state", async () => {
+    const text = await run({ action: "history", id: "701" });
+    assert.match(text, /2026-01-01 09:00 \*\*Grace Hopper\*\*: created story/);
+    assert.match(text, /\*\*Ada Lovelace\*\*: workflow state Ready → In Progress; estimate 2 → 3; owner \+Ada Lovelace; added comment "Looking into it"/);
+    assert.match(text, /- Ready: 1d 0h\n- In Progress: \d+d \d+h \(current\)/);
+  });
+});
+
+describe("branch", () => {
+  it("builds a mention/sc-id/slug branch name", async () => {
+    const text = await run({ action: "branch", id: "702" });
+    assert.match(text, /^ada\/sc-702\/add-oauth-provider$/m);
+  });
+
+  it("finds the story for the checked-out branch", async () => {
+    const repo = mkdtempSync(join(tmpdir(), "sc-git-"));
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: repo, stdio: "ignore" });
+    git("init", "-q");
+    git("-c", "user.name=Test", "-c", "user.email=test@example.com", "commit", "-q", "--allow-empty", "-m", "init");
+
+    const cwd = process.cwd();
+    process.chdir(repo);
+    try {
+      git("checkout", "-q", "-b", "ada/sc-701/login-fails");
+      const text = await run({ action: "branch", id: "current" });
+      assert.match(text, /^Branch: ada\/sc-701\/login-fails\n\n/);
+      assert.match(text, /Login fails on Safari/);
+
+      git("checkout", "-q", "-b", "cleanup");
+      const plain = await run({ action: "branch" });
+      assert.equal(plain, 'Branch "cleanup" does not reference a story (expected sc-<id> in the name)');
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+});
+
+describe("json format", () => {
+  it("returns normalized stories with resolved names", async () => {
+    const result = JSON.parse(await run({ action: "search", query: { owner: "me" }, format: "json" }));
+    const story = result.stories.find((s: { id: number }) => s.id === 701);
+    assert.equal(story.state, "In Progress");
+    assert.deepEqual(story.owners, [{ id: "u-ada", name: "Ada Lovelace" }]);
+    assert.deepEqual(story.epic, { id: 308, name: "Auth revamp" });
+    assert.equal(result.cursor, null);
+  });
+
+  it("includes tasks and comments on get", async () => {
+    const story = JSON.parse(await run({ action: "get", id: "701", format: "json" }));
+    assert.equal(story.requester.name, "Grace Hopper");
+    assert.equal(story.tasks.length, 2);
+    assert.equal(story.comments[0].author.name, "Grace Hopper");
+  });
+});
+
+describe("update", () => {
+  it("resolves fuzzy state and owner names", async () => {
+    const text = await run({ action: "update", id: "704", state: "in prog", owner: "grace" });
+    assert.match(text, /state → In Progress/);
+    assert.equal(fake.story(704)?.workflow_state_id, 500002);
+    assert.deepEqual(fake.story(704)?.owner_ids, ["u-grace"]);
+  });
+
+  it("lists valid states for an unknown state", async () => {
+    const text = await run({ action: "update", id: "704", state: "shipped-ish" });
+    assert.match(text, /Valid states: Ready, In Progress, In Review, Done/);
+  });
+
+  it("reports label names that match several labels", async () => {
+    fake.data.labels.push({ id: 4, name: "backend-legacy", archived: false });
+    const ambiguous = await run({ action: "update", id: "704", add_labels: ["back"] });
+    assert.match(ambiguous, /Label "back" matches several: backend, backend-legacy/);
+    assert.equal(fake.requests.some((r) => r.method === "PUT"), false);
+
+    await run({ action: "update", id: "704", add_labels: ["backend"] });
+    assert.deepEqual(fake.story(704)?.labels, [{ id: 1, name: "backend" }]);
+  });
+
+  it("rejects unknown labels with suggestions", async () => {
+    const text = await run({ action: "update", id: "704", add_labels: ["backnd"] });
+    assert.match(text, /Unknown labels: "backnd" \(did you mean: backend\?\)/);
+    assert.equal(fake.requests.some((r) => r.method === "PUT"), false);
+  });
+});
+
+describe("templates", () => {
+  it("reports missing template fields before creating", async () => {
+    const text = await run({ action: "create", name: "Crash", template: "bug", values: { steps: "Open" } });
+    assert.match(text, /Template "bug" needs: expected, actual/);
+    assert.equal(fake.requests.some((r) => r.method === "POST" && r.path === "/stories"), false);
+  });
+
+  it("fills the built-in bug template", async () => {
+    const values = { steps: "Open app", expected: "Loads", actual: "Crashes" };
+    await run({ action: "create", name: "Crash", template: "bug", values });
+    const story = fake.data.stories.at(-1);
+    assert.equal(story?.story_type, "bug");
+    assert.match(String(story?.description), /## Actual\nCrashes/);
+    assert.match(String(story?.description), /## Environment\n_Not provided_/);
+  });
+
+  it("applies Shortcut entity templates by fuzzy name", async () => {
+    await run({ action: "create", name: "Spike", template: "spike", values: { question: "Which IdP?" } });
+    const story = fake.data.stories.at(-1);
+    assert.equal(story?.story_template_id, "tpl-spike");
+    assert.equal(story?.estimate, 2);
+    assert.match(String(story?.description), /Which IdP\?/);
+  });
+
+  it("reads local template files with front matter", async () => {
+    const file = join(mkdtempSync(join(tmpdir(), "streamshortcut-")), "incident.md");
+    writeFileSync(file, "---\ntype: bug\nlabels: backend\n---\nImpact: {{impact}}");
+    await run({ action: "create", name: "Outage", template: file, values: { impact: "All users" } });
+    const story = fake.data.stories.at(-1);
+    assert.equal(story?.description, "Impact: All users");
+    assert.deepEqual(story?.labels, [{ id: 1, name: "backend" }]);
+  });
+});
+
+describe("workflow-scoped states", () => {
+  beforeEach(() => {
+    fake.data.workflows.push({
+      id: 600,
+      name: "Design",
+      states: [
+        { id: 600001, name: "Backlog", type: "unstarted" },
+        { id: 600002, name: "Done", type: "done" },
+      ],
+    });
+    fake.data.stories.push({ id: 801, name: "Mockups", workflow_id: 600, workflow_state_id: 600001 });
+  });
+
+  it("resolves update states in the story's workflow", async () => {
+    await run({ action: "update", id: "801", state: "done" });
+    assert.equal(fake.story(801)?.workflow_state_id, 600002);
+    await run({ action: "update", id: "701", state: "done" });
+    assert.equal(fake.story(701)?.workflow_state_id, 500004);
+  });
+
+  it("reports ambiguous states on create", async () => {
+    const result = await runShortcutTool({ action: "create", name: "Logo", state: "Done" });
+    assert.equal(result.isError, true);
+    assert.match(JSON.stringify(result.content), /Done \(Engineering\), Done \(Design\)/);
+  });
+
+  it("filters searches on a shared state name across workflows", async () => {
+    fake.data.stories.push({ id: 802, name: "Icons", workflow_id: 600, workflow_state_id: 600002 });
+    const text = await run({ action: "search", query: { state: "Done" } });
+    assert.match(text, /sc-703/);
+    assert.match(text, /sc-802/);
+    assert.doesNotMatch(text, /sc-801/);
+
+    const design = await run({ action: "search", query: { state: "Done", workflow: "Design" } });
+    assert.match(design, /sc-802/);
+    assert.doesNotMatch(design, /sc-703/);
+  });
+
+  it("creates in the chosen workflow", async () => {
+    await run({ action: "create", name: "Logo", workflow: "design" });
+    assert.equal(fake.data.stories.at(-1)?.workflow_state_id, 600001);
+  });
+});
+
+describe("create and comment", () => {
+  it("creates stories in the first unstarted state", async () => {
+    const text = await run({ action: "create", name: "New bug", type: "bug" });
+    assert.match(text, /Created sc-\d+: New bug/);
+    const story = fake.data.stories.at(-1);
+    assert.equal(story?.workflow_state_id, 500001);
+  });
+
+  it("posts comments", async () => {
+    await run({ action: "comment", id: "702", body: "Started" });
+    const comments = fake.story(702)?.comments as Array<Record<string, unknown>>;
+    assert.equal(comments.at(-1)?.text, "Started");
+  });
+});
+
+describe("comment threads", () => {
+  it("replies in a thread and nests replies under their parent in get", async () => {
+    const reply = await run({ action: "comment", id: "701", parent_id: 9001, body: "Also on iOS Safari" });
+    assert.match(reply, /Replied to comment #9001 on sc-701/);
+    assert.equal((fake.story(701)?.comments as Array<Record<string, unknown>>).at(-1)?.parent_id, 9001);
+
+    const text = await run({ action: "get", id: "701" });
+    assert.match(text, /\*\*Grace Hopper\*\* \(#9001, [^)]+\):\nRepro on Safari 17\n  ↳ \*\*Ada Lovelace\*\* \(#\d+, [^)]+\):\n    Also on iOS Safari/);
+    assert.ok(text.indexOf("Looking into it") < text.indexOf("Repro on Safari"));
+
+    const story = JSON.parse(await run({ action: "get", id: "701", format: "json" }));
+    assert.equal(story.comments.length, 2);
+    assert.equal(story.comments[0].replies[0].text, "Also on iOS Safari");
+  });
+
+  it("resolves @mentions to member links and shows them as names", async () => {
+    const result = await run({ action: "comment", id: "702", body: "@grace and @Ada, see @nobody." });
+    assert.match(result, /Not mentioned \(no matching member\): @nobody/);
+    const text = (fake.story(702)?.comments as Array<Record<string, unknown>>).at(-1)?.text;
+    assert.equal(
+      text,
+      "[@grace](shortcutapp://members/u-grace) and [@ada](shortcutapp://members/u-ada), see @nobody."
+    );
+    assert.match(await run({ action: "get", id: "702" }), /@Grace Hopper and @Ada Lovelace, see @nobody\./);
+  });
+
+  it("edits and deletes only your own comments", async () => {
+    await run({ action: "comment", id: "701", comment_id: 9002, body: "Fix is in review" });
+    const comments = () => fake.story(701)?.comments as Array<Record<string, unknown>>;
+    assert.equal(comments().find((c) => c.id === 9002)?.text, "Fix is in review");
+    assert.match(await run({ action: "get", id: "701" }), /#9002, [^)]+, edited/);
+
+    const other = await run({ action: "comment", id: "701", comment_id: 9001, body: "Hijack" });
+    assert.match(other, /written by Grace Hopper; only your own comments/);
+
+    const unconfirmed = await runShortcutTool({ action: "comment", id: "701", comment_id: 9002, delete: true });
+    assert.equal(unconfirmed.isError, true);
+    await run({ action: "comment", id: "701", comment_id: 9002, delete: true, confirm: true });
+    assert.equal(comments().some((c) => c.id === 9002), false);
+  });
+
+  it("adds reactions", async () => {
+    await run({ action: "comment", id: "701", comment_id: 9001, reaction: "+1" });
+    assert.match(await run({ action: "get", id: "701" }), /\(#9001, [^)]+\) \[:\+1: 1\]:/);
+  });
+});
+
+describe("attachments and external links", () => {
+  it("uploads a local file as multipart and lists it in get", async () => {
+    const file = join(mkdtempSync(join(tmpdir(), "sc-attach-")), "crash.log");
+    writeFileSync(file, "TypeError: undefined is not a function\n");
+
+    const result = await run({ action: "attach", id: "704", path: file });
+    assert.match(result, /Attached crash\.log \(39 B\) to sc-704\nhttps:\/\/media\.app\.shortcut\.com\/files\/\d+\/crash\.log/);
+    const upload = fake.requests.find((r) => r.method === "POST" && r.path === "/files");
+    assert.deepEqual(upload?.body, {
+      story_id: "704",
+      file0: { name: "crash.log", size: 39, content_type: "text/plain" },
+    });
+
+    assert.match(await run({ action: "get", id: "704" }), /Attachments:\n- crash\.log \(39 B\): https:\/\/media/);
+    const story = JSON.parse(await run({ action: "get", id: "704", format: "json" }));
+    assert.equal(story.files[0].name, "crash.log");
+
+    const missing = await runShortcutTool({ action: "attach", id: "704", path: join(tmpdir(), "no-such-file.log") });
+    assert.equal(missing.isError, true);
+    assert.match(JSON.stringify(missing.content), /File not found/);
+  });
+
+  it("adds and removes external links on update", async () => {
+    const sentry = "https://sentry.io/issues/123";
+    const grafana = "https://grafana.example.com/d/checkout";
+    const added = await run({ action: "update", id: "704", add_links: [sentry, grafana] });
+    assert.match(added, /links \+ https:\/\/sentry\.io/);
+    assert.deepEqual(fake.story(704)?.external_links, [sentry, grafana]);
+    assert.match(await run({ action: "get", id: "704" }), /External links:\n- https:\/\/sentry\.io\/issues\/123\n- https:\/\/grafana/);
+
+    await run({ action: "update", id: "704", remove_links: [sentry] });
+    assert.deepEqual(fake.story(704)?.external_links, [grafana]);
+
+    assert.match(await run({ action: "update", id: "704", remove_links: [sentry] }), /has no link https:\/\/sentry/);
+    assert.match(await run({ action: "update", id: "704", add_links: ["not a url"] }), /Invalid links: not a url/);
+  });
+});
+
+describe("epic and iteration", () => {
+  it("lists epic stories", async () => {
+    const text = await run({ action: "epic", id: "308" });
+    assert.match(text, /Auth revamp/);
+    assert.match(text, /sc-704/);
+  });
+
+  it("shows epic owners, target date, objectives and points", async () => {
+    const text = await run({ action: "epic", id: "308" });
+    assert.match(text, /State: In Progress \| Owners: Ada Lovelace/);
+    assert.match(text, /Target: 2026-12-01/);
+    assert.match(text, /Progress: 0\/8 pts done \(0%\), 3 started/);
+    assert.match(text, /Objectives: Q4 Security \(40\)/);
+  });
+
+  it("creates and updates epics with fuzzy names", async () => {
+    const created = await run({ action: "epic_create", name: "Billing", owner: "grace", state: "todo" });
+    assert.match(created, /Created epic \d+: Billing/);
+    const epic = fake.data.epics.at(-1);
+    assert.deepEqual(epic?.owner_ids, ["u-grace"]);
+    assert.equal(epic?.epic_state_id, 700001);
+
+    const updated = await run({ action: "epic_update", id: String(epic?.id), state: "done", objectives: ["q4"] });
+    assert.match(updated, /state → Done/);
+    assert.deepEqual(epic?.objective_ids, [40]);
+  });
+
+  it("summarizes the current iteration", async () => {
+    const text = await run({ action: "iteration" });
+    assert.match(text, /Sprint 12/);
+    assert.match(text, /Points: 1\/9 completed/);
+    assert.match(text, /Ada Lovelace: 0\/8 pts/);
+  });
+});
+
+describe("batch", () => {
+  it("changes nothing on dry run", async () => {
+    const text = await run({ action: "batch", ids: ["701", "702"], state: "Done", dry_run: true });
+    assert.match(text, /Dry run: state → Done on 2 stories/);
+    assert.equal(fake.story(701)?.workflow_state_id, 500002);
+  });
+
+  it("updates every story and reports each result", async () => {
+    const text = await run({ action: "batch", ids: ["701", "999"], state: "Done" });
+    assert.match(text, /1\/2 succeeded/);
+    assert.match(text, /sc-999 \| failed/);
+    assert.equal(fake.story(701)?.workflow_state_id, 500004);
+  });
+
+  it("checks only the calls it makes against the policy and resolves comment mentions", async () => {
+    process.env.SHORTCUT_API_DENY = "PUT /stories/*";
+    try {
+      const text = await run({ action: "batch", ids: ["701", "702"], body: "Ping @grace and @nobody" });
+      assert.match(text, /2\/2 succeeded\nNot mentioned \(no matching member\): @nobody/);
+      const posted = (fake.story(702)?.comments as Array<Record<string, unknown>>).at(-1)?.text;
+      assert.equal(posted, "Ping [@grace](shortcutapp://members/u-grace) and @nobody");
+
+      const blocked = await runShortcutTool({ action: "batch", ids: ["701"], estimate: 2 });
+      assert.match(JSON.stringify(blocked.content), /matches deny rule/);
+    } finally {
+      delete process.env.SHORTCUT_API_DENY;
+    }
+  });
+
+  it("reports a story that was updated when only its comment failed", async () => {
+    fake.faults = [{ path: "/stories/701/comments", status: 500, body: { message: "Boom" } }];
+    const text = await run({ action: "batch", ids: ["701", "702"], estimate: 2, body: "Re-estimated" });
+    assert.match(text, /1\/2 succeeded/);
+    assert.match(text, /\| sc-701 \| partial \| updated; comment failed: Shortcut API 500 .*Boom \|/);
+    assert.equal(fake.story(701)?.estimate, 2);
+  });
+
+  it("selects stories by a text query", async () => {
+    const text = await run({ action: "batch", query: "login", estimate: 2 });
+    assert.match(text, /2\/2 succeeded/);
+    assert.equal(fake.story(703)?.estimate, 2);
+  });
+});
+
+describe("links and tasks", () => {
+  it("shows open blockers on get", async () => {
+    await run({ action: "link", id: "704", target: "702", verb: "blocked by" });
+    const text = await run({ action: "get", id: "704" });
+    assert.match(text, /1 open blocker/);
+    assert.match(text, /Blocked by:\n- \*\*sc-702\*\* Add OAuth provider \[Ready\] \(open\)/);
+  });
+
+  it("adds and toggles tasks", async () => {
+    await run({ action: "task", id: "701", body: "Ship fix" });
+    await run({ action: "task", id: "701", task: "regression" });
+    const text = await run({ action: "task", id: "701" });
+    assert.match(text, /2\. \[x\] Write regression test/);
+    assert.match(text, /3\. \[ \] Ship fix/);
+  });
+});
+
+describe("safety policy", () => {
+  const reset = () => {
+    delete process.env.SHORTCUT_READ_ONLY;
+    delete process.env.SHORTCUT_API_DENY;
+    delete process.env.SHORTCUT_API_ALLOW;
+    delete process.env.SHORTCUT_API_CONFIRM;
+  };
+  beforeEach(reset);
+  after(reset);
+
+  it("blocks writes in read-only mode but still allows searches", async () => {
+    process.env.SHORTCUT_READ_ONLY = "1";
+    assert.match(await run({ action: "search" }), /sc-701/);
+    const result = await runShortcutTool({ action: "update", id: "704", estimate: 2 });
+    assert.equal(result.isError, true);
+    assert.match(JSON.stringify(result.content), /Blocked by policy: PUT \/stories\/704 is a write/);
+    assert.equal(fake.story(704)?.estimate, null);
+  });
+
+  it("fails a whole batch up front when writes are blocked", async () => {
+    process.env.SHORTCUT_READ_ONLY = "1";
+    const result = await runShortcutTool({ action: "batch", ids: ["701", "702"], estimate: 1 });
+    assert.equal(result.isError, true);
+    assert.equal(fake.requests.some((r) => r.method === "PUT"), false);
+  });
+
+  it("requires confirm for deletes and archives", async () => {
+    const blocked = await runShortcutTool({ action: "task", id: "701", task: "1", delete: true });
+    assert.match(JSON.stringify(blocked.content), /repeat the call with \\"confirm\\": true/);
+    const archive = await runShortcutTool({ action: "api", method: "PUT", path: "/stories/704", query: { archived: true } });
+    assert.equal(archive.isError, true);
+
+    await run({ action: "task", id: "701", task: "1", delete: true, confirm: true });
+    assert.equal((fake.story(701)?.tasks as unknown[]).length, 1);
+  });
+
+  it("adds confirm patterns without lifting the confirm on deletes", async () => {
+    process.env.SHORTCUT_API_CONFIRM = "PUT /stories/*";
+    const update = await runShortcutTool({ action: "update", id: "704", estimate: 2 });
+    assert.match(JSON.stringify(update.content), /PUT \/stories\/704 is destructive; repeat the call/);
+    await run({ action: "update", id: "704", estimate: 2, confirm: true });
+    assert.equal(fake.story(704)?.estimate, 2);
+
+    const remove = await runShortcutTool({ action: "task", id: "701", task: "1", delete: true });
+    assert.match(JSON.stringify(remove.content), /DELETE \/stories\/701\/tasks\/\d+ is destructive/);
+  });
+
+  it("allows only calls matching SHORTCUT_API_ALLOW", async () => {
+    process.env.SHORTCUT_API_ALLOW = "GET *,POST /stories/search";
+    assert.match(await run({ action: "search" }), /sc-701/);
+    const update = await runShortcutTool({ action: "update", id: "704", estimate: 2 });
+    assert.match(JSON.stringify(update.content), /PUT \/stories\/704 is not in the allowlist/);
+    assert.equal(fake.story(704)?.estimate, null);
+  });
+
+  it("applies deny patterns to the raw api action", async () => {
+    process.env.SHORTCUT_API_DENY = "* /epics/*";
+    const result = await runShortcutTool({ action: "api", method: "GET", path: "/epics/308" });
+    assert.match(JSON.stringify(result.content), /matches deny rule \\"\* \/epics\/\*\\"/);
+  });
+
+  it("matches rules against the path after dot segments are resolved", async () => {
+    process.env.SHORTCUT_API_DENY = "PUT /stories/*";
+    for (const path of ["/x/../stories/704", "/x/%2e%2e/stories/704", "/stories/./704"]) {
+      const result = await runShortcutTool({ action: "api", method: "PUT", path, query: { estimate: 8 } });
+      assert.match(JSON.stringify(result.content), /PUT \/stories\/704 matches deny rule/);
+    }
+    assert.equal(fake.story(704)?.estimate, null);
+
+    delete process.env.SHORTCUT_API_DENY;
+    process.env.SHORTCUT_API_ALLOW = "POST /stories/search*";
+    const result = await runShortcutTool({
+      action: "api",
+      method: "POST",
+      path: "/stories/search/../../stories",
+      query: { name: "x" },
+    });
+    assert.match(JSON.stringify(result.content), /POST \/stories is not in the allowlist/);
+
+    const escaped = await runShortcutTool({ action: "api", method: "GET", path: "/../../member" });
+    assert.match(JSON.stringify(escaped.content), /resolves outside the Shortcut API/);
+  });
+});
+
+describe("teams", () => {
+  after(() => {
+    delete process.env.SHORTCUT_DEFAULT_TEAM;
+  });
+
+  it("lists teams and shows a team's members and in-flight stories", async () => {
+    assert.match(await run({ action: "team" }), /\*\*Platform\*\* @platform: 2 members/);
+
+    const text = await run({ action: "team", id: "@platform" });
+    assert.match(text, /## Members \(2\)\n- Ada Lovelace\n- Grace Hopper/);
+    assert.match(text, /## In Progress \(1\)\n- \*\*sc-701\*\*/);
+    assert.doesNotMatch(text, /sc-70[234]/);
+  });
+
+  it("sets and clears the team on create and update", async () => {
+    await run({ action: "create", name: "Crash on iOS", team: "mob" });
+    assert.equal(fake.data.stories.at(-1)?.group_id, "g-mobile");
+
+    await run({ action: "update", id: "704", team: "Platform" });
+    assert.equal(fake.story(704)?.group_id, "g-platform");
+    await run({ action: "update", id: "704", team: null });
+    assert.equal(fake.story(704)?.group_id, null);
+
+    const result = await runShortcutTool({ action: "update", id: "704", team: "Design" });
+    assert.equal(result.isError, true);
+    assert.match(JSON.stringify(result.content), /Valid teams: Platform, Mobile/);
+  });
+
+  it("creates stories on the default team's board and workflow", async () => {
+    fake.data.workflows.push({ id: 600, name: "Mobile", states: [{ id: 600001, name: "Triage", type: "unstarted" }] });
+    fake.data.groups[1].workflow_ids = [600];
+    process.env.SHORTCUT_DEFAULT_TEAM = "Mobile";
+
+    await run({ action: "create", name: "Push notifications" });
+    assert.equal(fake.data.stories.at(-1)?.group_id, "g-mobile");
+    assert.equal(fake.data.stories.at(-1)?.workflow_state_id, 600001);
+  });
+});
+
+describe("report", () => {
+  it("summarizes my in-progress and blocked stories", async () => {
+    // Linking a blocker updates the blocked story
+    fake.data.storyLinks.push({ id: 1, subject_id: 704, object_id: 702, verb: "blocks" });
+    fake.story(702)!.updated_at = new Date().toISOString();
+    const text = await run({ action: "report" });
+    assert.match(text, /# Report: Ada Lovelace, since/);
+    assert.match(text, /Completed: 0 \| In progress: 1 \| Blocked: 1/);
+    assert.match(text, /## In Progress\n### In Progress\n- \*\*sc-701\*\*/);
+    assert.match(text, /## Blocked\n- \*\*sc-702\*\*/);
+  });
+
+  it("covers completed stories and recent comments for a member or team", async () => {
+    const grace = await run({ action: "report", owner: "grace" });
+    assert.match(grace, /## Completed\n### Done\n- \*\*sc-703\*\*/);
+
+    const team = await run({ action: "report", team: "Platform", since: "2026-01-01" });
+    assert.match(team, /## Recent Comments\n- sc-701 \*\*Ada Lovelace\*\*: Looking into it\n- sc-701 \*\*Grace Hopper\*\*/);
+    const quiet = await run({ action: "report", team: "Platform", since: "2026-06-01" });
+    assert.doesNotMatch(quiet, /Recent Comments/);
+
+    // Every search is bounded by the window or by in-progress states
+    const searches = fake.requests
+      .filter((r) => r.path === "/stories/search")
+      .map((r) => r.body as Record<string, unknown>);
+    assert.ok(searches.every((b) => b.updated_at_start || b.workflow_state_types));
+    assert.ok(searches.some((b) => b.updated_at_start === "2026-06-01T00:00:00.000Z"));
+  });
+
+  it("groups by epic and returns json", async () => {
+    const text = await run({ action: "report", epic: 308, group_by: "epic", since: "2w" });
+    assert.match(text, /# Report: Epic Auth revamp/);
+    assert.match(text, /## In Progress\n### Auth revamp\n- \*\*sc-701\*\*/);
+
+    const report = JSON.parse(await run({ action: "report", owner: "grace", format: "json" }));
+    assert.deepEqual(report.completed.map((s: { id: number }) => s.id), [703]);
+    assert.equal(report.scope, "Grace Hopper");
+  });
+
+  it("rejects an invalid window", async () => {
+    const result = await runShortcutTool({ action: "report", since: "last sprint" });
+    assert.match(JSON.stringify(result.content), /Invalid since: last sprint/);
+  });
+});
+
+describe("custom fields and metadata", () => {
+  it("renders custom fields in get and json", async () => {
+    assert.match(await run({ action: "get", id: "701" }), /Fields: Priority: High/);
+    const story = JSON.parse(await run({ action: "get", id: "701", format: "json" }));
+    assert.deepEqual(story.fields, { Priority: "High" });
+  });
+
+  it("sets fields fuzzily on update, keeping the others", async () => {
+    const text = await run({ action: "update", id: "701", fields: { area: "bill", priority: null } });
+    assert.match(text, /Product Area → Billing, Priority → none/);
+    assert.deepEqual(fake.story(701)?.custom_fields, [{ field_id: "cf-area", value_id: "a-billing", value: "Billing" }]);
+
+    await run({ action: "update", id: "701", fields: { Priority: "highest" } });
+    const ids = (fake.story(701)?.custom_fields as Array<Record<string, unknown>>).map((cf) => cf.value_id);
+    assert.deepEqual(ids, ["a-billing", "p-highest"]);
+  });
+
+  it("reports unknown and ambiguous field values", async () => {
+    const unknown = await runShortcutTool({ action: "update", id: "701", fields: { Severity: "High" } });
+    assert.match(JSON.stringify(unknown.content), /Custom field \\"Severity\\" not found. Valid: Priority, Product Area/);
+    const ambiguous = await runShortcutTool({ action: "update", id: "701", fields: { Priority: "hi" } });
+    assert.match(JSON.stringify(ambiguous.content), /matches several: Highest, High/);
+  });
+
+  it("sets fields, deadline and requester on create", async () => {
+    await run({
+      action: "create",
+      name: "Invoice rounding",
+      fields: { Priority: "low" },
+      deadline: "2026-11-30",
+      requester: "grace",
+    });
+    const story = fake.data.stories.at(-1);
+    assert.deepEqual(story?.custom_fields, [{ field_id: "cf-priority", value_id: "p-low", value: "Low" }]);
+    assert.equal(story?.deadline, "2026-11-30T00:00:00.000Z");
+    assert.equal(story?.requested_by_id, "u-grace");
+
+    await run({ action: "update", id: "704", deadline: null, requester: "ada" });
+    assert.equal(fake.story(704)?.deadline, null);
+    assert.equal(fake.story(704)?.requested_by_id, "u-ada");
+  });
+
+  it("filters searches by field value", async () => {
+    const text = await run({ action: "search", query: { team: "Platform" }, fields: { Priority: "High" } });
+    assert.match(text, /sc-701/);
+    assert.doesNotMatch(text, /sc-70[234]/);
+  });
+});
+
+describe("cache", () => {
+  let dir: string;
+  const cacheFile = (key: string) => join(dir, readdirSync(dir)[0], `${key}.json`);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sc-cache-"));
+    process.env.SHORTCUT_CACHE_DIR = dir;
+  });
+  after(() => {
+    process.env.SHORTCUT_CACHE_DIR = "off";
+  });
+
+  it("persists resources to disk and serves them on the next start", async () => {
+    await run({ action: "get", id: "701" });
+    const saved = readFileSync(cacheFile("workflows"), "utf8");
+    assert.equal(JSON.parse(saved).data[0].name, "Engineering");
+
+    // A restart: memory is empty, the disk copy is all that is left
+    invalidateCache(["workflows"]);
+    writeFileSync(cacheFile("workflows"), saved);
+    fake.requests = [];
+    fake.faults = [{ path: "/workflows", status: 500 }];
+    assert.match(await run({ action: "get", id: "701" }), /In Progress/);
+    assert.equal(fake.requests.some((r) => r.path === "/workflows"), false);
+  });
+
+  it("refetches only the requested resource and keeps the cached copy on failure", async () => {
+    await run({ action: "get", id: "701" });
+    fake.requests = [];
+    assert.match(await run({ action: "refresh", query: "labels" }), /Refreshed cache: labels/);
+    assert.deepEqual(fake.requests.map((r) => r.path), ["/labels?slim=true"]);
+
+    fake.faults = [{ path: "/workflows", status: 500 }];
+    const failed = await runShortcutTool({ action: "refresh", query: "workflows" });
+    assert.equal(failed.isError, true);
+    assert.match(JSON.stringify(failed.content), /Kept cached copies of: workflows/);
+    assert.ok(existsSync(cacheFile("workflows")));
+    assert.match(await run({ action: "get", id: "701" }), /In Progress/);
+  });
+});
+
+describe("workspaces", () => {
+  let previous: string | undefined;
+
+  before(() => {
+    previous = process.env.SHORTCUT_CONFIG;
+    const file = join(mkdtempSync(join(tmpdir(), "sc-workspaces-")), "config.json");
+    const apiUrl = process.env.SHORTCUT_API_URL;
+    writeFileSync(
+      file,
+      JSON.stringify({
+        default: "acme",
+        workspaces: {
+          acme: { token: "acme-token", api_url: apiUrl },
+          globex: { token_env: "GLOBEX_TEST_TOKEN", api_url: apiUrl },
+        },
+      })
+    );
+    process.env.GLOBEX_TEST_TOKEN = "globex-token";
+    process.env.SHORTCUT_CONFIG = file;
+  });
+
+  after(() => {
+    process.env.SHORTCUT_CONFIG = previous;
+    delete process.env.GLOBEX_TEST_TOKEN;
+  });
+
+  it("uses the default workspace, or the one passed by slug", async () => {
+    await run({ action: "get", id: "704" });
+    assert.equal(fake.requests.at(-1)?.token, "acme-token");
+    await run({ action: "get", id: "704", workspace: "globex" });
+    assert.equal(fake.requests.at(-1)?.token, "globex-token");
+  });
+
+  it("selects the workspace from a story URL", async () => {
+    await run({ action: "get", id: "https://app.shortcut.com/globex/story/704/login-timeout" });
+    assert.equal(fake.requests.at(-1)?.token, "globex-token");
+
+    const result = await runShortcutTool({ action: "get", id: "https://app.shortcut.com/initech/story/704" });
+    assert.equal(result.isError, true);
+    assert.match(JSON.stringify(result.content), /Workspace \\"initech\\" from the URL is not configured/);
+  });
+
+  it("keeps cached data per workspace", async () => {
+    await run({ action: "update", id: "704", state: "Done" });
+    await run({ action: "update", id: "704", state: "Ready", workspace: "globex" });
+    const workflowTokens = fake.requests.filter((r) => r.path === "/workflows").map((r) => r.token);
+    assert.deepEqual(workflowTokens, ["acme-token", "globex-token"]);
+  });
+});
+
+describe("http", () => {
+  const reset = () => {
+    delete process.env.SHORTCUT_TIMEOUT_MS;
+    delete process.env.SHORTCUT_RETRY_BUDGET_MS;
+    delete process.env.SHORTCUT_DEBUG_LOG;
+  };
+  beforeEach(reset);
+  after(reset);
+
+  const errorText = async (args: Record<string, unknown>) => {
+    const result = await runShortcutTool(args);
+    assert.equal(result.isError, true);
+    return JSON.stringify(result.content);
+  };
+
+  it("retries transient failures on reads", async () => {
+    fake.faults = [{ path: "/stories/704", status: 503 }, { path: "/stories/704", status: 502 }];
+    assert.match(await run({ action: "get", id: "704" }), /Refactor session store/);
+    assert.equal(fake.requests.filter((r) => r.path === "/stories/704").length, 3);
+  });
+
+  it("does not repeat creates after an unknown outcome", async () => {
+    fake.faults = [{ path: "/stories", status: 502, body: { message: "Bad gateway" } }];
+    const text = await errorText({ action: "create", name: "Once" });
+    assert.match(text, /Shortcut API 502 on POST \/stories: Bad gateway/);
+    assert.equal(fake.requests.filter((r) => r.method === "POST" && r.path === "/stories").length, 1);
+  });
+
+  it("times out hung requests", async () => {
+    process.env.SHORTCUT_TIMEOUT_MS = "50";
+    process.env.SHORTCUT_RETRY_BUDGET_MS = "0";
+    fake.faults = [1, 2, 3, 4].map(() => ({ path: "/stories/704", delayMs: 200 }));
+    assert.match(await errorText({ action: "get", id: "704" }), /timed out after 50ms on GET \/stories\/704/);
+  });
+
+  it("gives up when Retry-After exceeds the retry budget", async () => {
+    fake.faults = [
+      { path: "/stories/704", status: 429, headers: { "Retry-After": "60" }, body: { message: "Too many requests" } },
+    ];
+    const text = await errorText({ action: "get", id: "704" });
+    assert.match(text, /429 on GET \/stories\/704: Too many requests; retry after 60s/);
+  });
+
+  it("reports Shortcut's JSON errors concisely", async () => {
+    fake.faults = [
+      { path: "/stories/704", status: 400, body: { message: "Invalid input", errors: { estimate: "must be a number" } } },
+    ];
+    const text = await errorText({ action: "update", id: "704", estimate: 2 });
+    assert.match(text, /Shortcut API 400 on PUT \/stories\/704: Invalid input; estimate: must be a number/);
+  });
+
+  it("logs method, path, status and latency when asked", async () => {
+    const log = join(mkdtempSync(join(tmpdir(), "sc-log-")), "http.log");
+    process.env.SHORTCUT_DEBUG_LOG = log;
+    await run({ action: "get", id: "704" });
+    assert.match(readFileSync(log, "utf8"), /GET \/stories\/704 200 \d+ms/);
+  });
+});
+
+describe("resources and prompts", () => {
+  const client = new Client({ name: "test", version: "1.0.0" });
+
+  before(async () => {
+    const server = new McpServer({ name: "shortcut", version: "1.0.0" });
+    registerResources(server);
+    registerPrompts(server);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  after(() => client.close());
+
+  const read = async (uri: string) => {
+    const { contents } = await client.readResource({ uri });
+    return "text" in contents[0] ? String(contents[0].text) : "";
+  };
+
+  it("lists my stories and reads stories, epics and workflows", async () => {
+    const { resources } = await client.listResources();
+    assert.ok(resources.some((r) => r.uri === "shortcut://story/701" && r.name === "sc-701: Login fails on Safari"));
+
+    assert.match(await read("shortcut://story/701"), /Login fails on Safari[\s\S]*Recent Comments/);
+    assert.match(await read("shortcut://epic/308"), /Auth revamp/);
+    assert.match(await read("shortcut://workflows"), /## Engineering \(500\)\n- Ready \(unstarted, id 500001\)/);
+    await assert.rejects(read("shortcut://story/999"), /404/);
+  });
+
+  it("builds start-work and standup prompts from story data", async () => {
+    const start = await client.getPrompt({ name: "start-work", arguments: { id: "sc-704" } });
+    const startText = JSON.stringify(start.messages);
+    assert.match(startText, /Refactor session store/);
+    assert.match(startText, /sc-704\/refactor-session-store/);
+
+    const standup = await client.getPrompt({ name: "standup" });
+    assert.match(JSON.stringify(standup.messages), /sc-701/);
+  });
+});
+
+describe("tool errors", () => {
+  it("flags missing required params", async () => {
+    const result = await runShortcutTool({ action: "get" });
+    assert.equal(result.isError, true);
+  });
+});
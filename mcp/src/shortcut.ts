@@ -0,0 +1,3228 @@
+import { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, extname, join, resolve } from "node:path";
+import { promisify } from "node:util";
+import { sendRequest } from "./http.js";
+import { checkPolicy, isReadOnlyCall, resolveApiPath } from "./policy.js";
+import { listWorkspaces, resolveWorkspace, workspaceForUrl, type Workspace } from "./workspaces.js";
+
+const DEFAULT_SHORTCUT_API = "https://api.app.shortcut.com/api/v3";
+const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const CACHE_STALE_MS = 7 * 24 * 60 * 60 * 1000; // serve stale data for up to a week
+
+// Per tool call context: whether the caller confirmed destructive operations,
+// and which workspace the call runs against
+const callContext = new AsyncLocalStorage<{ confirm: boolean; workspace?: Workspace }>();
+
+function currentWorkspace(): Workspace {
+  return callContext.getStore()?.workspace ?? resolveWorkspace();
+}
+
+// Read per request so tests can point the server at a fake Shortcut API
+function apiBaseUrl(): string {
+  return currentWorkspace().apiUrl || process.env.SHORTCUT_API_URL || DEFAULT_SHORTCUT_API;
+}
+
+function apiToken(): string {
+  return currentWorkspace().token;
+}
+
+// Cache with TTL
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+}
+
+// REST API helper with policy checks; timeouts, retries and logging live in http.ts.
+// The policy sees, and the request sends, the path with dot segments already resolved.
+async function api(method: string, rawPath: string, body?: Record<string, unknown>): Promise<unknown> {
+  const baseUrl = apiBaseUrl();
+  const path = resolveApiPath(baseUrl, rawPath);
+  checkPolicy(method, path, body, callContext.getStore()?.confirm ?? false);
+
+  return sendRequest({
+    method,
+    baseUrl,
+    path,
+    token: apiToken(),
+    body,
+    idempotent: method.toUpperCase() !== "POST" || isReadOnlyCall(method, path),
+  });
+}
+
+// Multipart upload; like any create it is not retried after an unknown outcome
+async function apiUpload(path: string, form: FormData): Promise<unknown> {
+  checkPolicy("POST", path, undefined, callContext.getStore()?.confirm ?? false);
+
+  return sendRequest({ method: "POST", baseUrl: apiBaseUrl(), path, token: apiToken(), body: form, idempotent: false });
+}
+
+// ID resolution with validation
+export function resolveId(input: string): number {
+  // Shortcut URL pattern
+  const urlMatch = input.match(/shortcut\.com\/[^/]+\/story\/(\d+)/i);
+  if (urlMatch) {
+    const id = parseInt(urlMatch[1], 10);
+    if (Number.isFinite(id) && id > 0) return id;
+  }
+
+  // Epic URL pattern
+  const epicUrlMatch = input.match(/shortcut\.com\/[^/]+\/epic\/(\d+)/i);
+  if (epicUrlMatch) {
+    const id = parseInt(epicUrlMatch[1], 10);
+    if (Number.isFinite(id) && id > 0) return id;
+  }
+
+  // sc-704 anywhere, e.g. a branch name like ada/sc-704/fix-login
+  const scMatch = input.match(/\bsc-(\d+)/i);
+  if (scMatch) {
+    const id = parseInt(scMatch[1], 10);
+    if (Number.isFinite(id) && id > 0) return id;
+  }
+
+  // Just 704
+  const numMatch = input.match(/(\d+)/);
+  if (numMatch) {
+    const id = parseInt(numMatch[1], 10);
+    if (Number.isFinite(id) && id > 0) return id;
+  }
+
+  throw new Error(`Invalid ID: ${input}`);
+}
+
+// Cached resources: per-resource TTLs, kept in memory and (optionally) on disk.
+// Set SHORTCUT_CACHE_DIR to "off" to keep the cache in memory only.
+const CACHE_RESOURCES: Record<string, { path: string; ttl: number }> = {
+  member: { path: "/member", ttl: 60 * 60 * 1000 },
+  workflows: { path: "/workflows", ttl: 60 * 60 * 1000 },
+  members: { path: "/members", ttl: 60 * 60 * 1000 },
+  labels: { path: "/labels?slim=true", ttl: 15 * 60 * 1000 },
+  epics: { path: "/epics?includes_description=false", ttl: CACHE_TTL_MS },
+  iterations: { path: "/iterations", ttl: CACHE_TTL_MS },
+  epicWorkflow: { path: "/epic-workflow", ttl: 60 * 60 * 1000 },
+  objectives: { path: "/objectives", ttl: 15 * 60 * 1000 },
+  templates: { path: "/entity-templates", ttl: 15 * 60 * 1000 },
+  groups: { path: "/groups", ttl: 15 * 60 * 1000 },
+  customFields: { path: "/custom-fields", ttl: 60 * 60 * 1000 },
+};
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+const pendingFetches = new Map<string, Promise<unknown>>();
+
+// Disk cache lives under a per-token directory so workspaces never mix
+function diskCacheDir(token = apiToken()): string | null {
+  const configured = process.env.SHORTCUT_CACHE_DIR;
+  if (configured === "off" || configured === "") return null;
+  const base =
+    configured || join(process.env.XDG_CACHE_HOME || join(homedir(), ".cache"), "streamshortcut");
+  const tokenHash = createHash("sha256").update(token).digest("hex").slice(0, 12);
+  return join(base, tokenHash);
+}
+
+function readDiskCache(key: string): CacheEntry<unknown> | null {
+  const dir = diskCacheDir();
+  if (!dir) return null;
+  try {
+    const entry = JSON.parse(readFileSync(join(dir, `${key}.json`), "utf8"));
+    return typeof entry?.timestamp === "number" ? (entry as CacheEntry<unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeDiskCache(key: string, entry: CacheEntry<unknown>): void {
+  const dir = diskCacheDir();
+  if (!dir) return;
+  try {
+    mkdirSync(dir, { recursive: true });
+    const file = join(dir, `${key}.json`);
+    writeFileSync(`${file}.tmp`, JSON.stringify(entry));
+    renameSync(`${file}.tmp`, file);
+  } catch {
+    // The disk cache is best-effort; the in-memory cache still works
+  }
+}
+
+// Memory cache keys are scoped by workspace; the disk cache is already per token
+function memoryKey(key: string): string {
+  return `${currentWorkspace().slug}:${key}`;
+}
+
+async function fetchResource(key: string): Promise<unknown> {
+  const scoped = memoryKey(key);
+  const pending = pendingFetches.get(scoped);
+  if (pending) return pending;
+
+  const promise = api("GET", CACHE_RESOURCES[key].path)
+    .then((data) => {
+      const entry = { data, timestamp: Date.now() };
+      memoryCache.set(scoped, entry);
+      writeDiskCache(key, entry);
+      return data;
+    })
+    .finally(() => pendingFetches.delete(scoped));
+  pendingFetches.set(scoped, promise);
+  return promise;
+}
+
+// Fresh → cached data; stale → cached data plus a background refresh;
+// expired or missing → fetch, falling back to any cached copy when offline
+async function getCached<T>(key: string): Promise<T> {
+  const scoped = memoryKey(key);
+  let entry = memoryCache.get(scoped) || null;
+  if (!entry) {
+    entry = readDiskCache(key);
+    if (entry) memoryCache.set(scoped, entry);
+  }
+
+  const age = entry ? Date.now() - entry.timestamp : Infinity;
+  if (entry && age < CACHE_RESOURCES[key].ttl) return entry.data as T;
+
+  if (entry && age < CACHE_STALE_MS) {
+    fetchResource(key).catch(() => {
+      // Keep serving the stale copy; the next call retries
+    });
+    return entry.data as T;
+  }
+
+  try {
+    return (await fetchResource(key)) as T;
+  } catch (error) {
+    if (entry) return entry.data as T;
+    throw error;
+  }
+}
+
+// Drops the given resources for every configured workspace
+export function invalidateCache(keys: string[] = Object.keys(CACHE_RESOURCES)): void {
+  for (const workspace of listWorkspaces()) {
+    const dir = diskCacheDir(workspace.token);
+    for (const key of keys) {
+      memoryCache.delete(`${workspace.slug}:${key}`);
+      if (dir) rmSync(join(dir, `${key}.json`), { force: true });
+    }
+  }
+}
+
+async function getCurrentMember(): Promise<Record<string, unknown>> {
+  return getCached<Record<string, unknown>>("member");
+}
+
+async function getWorkflows(): Promise<Array<Record<string, unknown>>> {
+  return getCached<Array<Record<string, unknown>>>("workflows");
+}
+
+async function getMembers(): Promise<Array<Record<string, unknown>>> {
+  return getCached<Array<Record<string, unknown>>>("members");
+}
+
+async function getLabels(): Promise<Array<Record<string, unknown>>> {
+  return getCached<Array<Record<string, unknown>>>("labels");
+}
+
+async function getEpics(): Promise<Array<Record<string, unknown>>> {
+  return getCached<Array<Record<string, unknown>>>("epics");
+}
+
+async function getIterations(): Promise<Array<Record<string, unknown>>> {
+  return getCached<Array<Record<string, unknown>>>("iterations");
+}
+
+async function getEpicStates(): Promise<Array<Record<string, unknown>>> {
+  const workflow = await getCached<Record<string, unknown>>("epicWorkflow");
+  return (workflow?.epic_states as Array<Record<string, unknown>> | undefined) || [];
+}
+
+async function getGroups(): Promise<Array<Record<string, unknown>>> {
+  return getCached<Array<Record<string, unknown>>>("groups");
+}
+
+async function getObjectives(): Promise<Array<Record<string, unknown>>> {
+  return getCached<Array<Record<string, unknown>>>("objectives");
+}
+
+async function getCustomFields(): Promise<Array<Record<string, unknown>>> {
+  return getCached<Array<Record<string, unknown>>>("customFields");
+}
+
+async function getEntityTemplates(): Promise<Array<Record<string, unknown>>> {
+  return getCached<Array<Record<string, unknown>>>("templates");
+}
+
+// Name lookups for members, epics and iterations (members fall back to the raw ID)
+interface NameLookup {
+  member(id: unknown): string;
+  epic(id: unknown): string | null;
+  iteration(id: unknown): string | null;
+  field(id: unknown): string | null;
+}
+
+async function getNameLookup(): Promise<NameLookup> {
+  const [members, epics, iterations, fields] = await Promise.all([
+    getMembers(),
+    getEpics(),
+    getIterations(),
+    // Custom fields are optional decoration; a workspace without them still renders
+    getCustomFields().catch(() => [] as Array<Record<string, unknown>>),
+  ]);
+
+  return {
+    member(id) {
+      const member = members.find((m) => m.id === id);
+      const profile = member?.profile as Record<string, unknown> | undefined;
+      return String(profile?.name || profile?.mention_name || id);
+    },
+    epic(id) {
+      const epic = epics.find((e) => e.id === id);
+      return epic ? String(epic.name) : null;
+    },
+    iteration(id) {
+      const iteration = iterations.find((it) => it.id === id);
+      return iteration ? String(iteration.name) : null;
+    },
+    field(id) {
+      const field = fields.find((f) => f.id === id);
+      return field ? String(field.name) : null;
+    },
+  };
+}
+
+// Workflow state lookup by ID
+interface StateInfo {
+  name: string;
+  type: string;
+  workflowId: number;
+}
+
+async function getStateLookup(): Promise<Map<number, StateInfo>> {
+  const workflows = await getWorkflows();
+  const states = new Map<number, StateInfo>();
+  for (const wf of workflows) {
+    for (const s of (wf.states as Array<Record<string, unknown>> | undefined) || []) {
+      states.set(s.id as number, { name: s.name as string, type: s.type as string, workflowId: wf.id as number });
+    }
+  }
+  return states;
+}
+
+// Get workflow state by ID
+async function getStateName(stateId: number): Promise<string> {
+  const workflows = await getWorkflows();
+  for (const wf of workflows) {
+    const states = (wf.states as Array<Record<string, unknown>> | undefined) || [];
+    const state = states.find((s) => s.id === stateId);
+    if (state) return state.name as string;
+  }
+  return String(stateId);
+}
+
+// Fuzzy match a state name in each workflow (optionally just one). Each tier
+// (exact, partial, alias) is tried across workflows before the next, so the
+// result holds at most one state per workflow from the best matching tier.
+async function matchStates(
+  stateName: string,
+  workflowId?: number
+): Promise<Array<{ workflow: Record<string, unknown>; state: Record<string, unknown> }>> {
+  const workflows = (await getWorkflows()).filter((wf) => workflowId === undefined || wf.id === workflowId);
+  const lower = stateName.toLowerCase();
+
+  // Common aliases
+  const aliases: Record<string, string[]> = {
+    done: ["done", "complete", "completed", "finished", "deployed"],
+    "in progress": ["in progress", "started", "doing", "wip", "in prog", "development"],
+    ready: ["ready", "todo", "to do", "backlog", "open", "ready for"],
+    review: ["review", "code review", "pr", "pull request"],
+  };
+
+  const tiers: Array<(name: string) => boolean> = [
+    (name) => name === lower,
+    (name) => name.includes(lower),
+    ...Object.entries(aliases)
+      .filter(([, alts]) => alts.some((a) => lower.includes(a) || a.includes(lower)))
+      .map(([canonical]) => (name: string) => name.includes(canonical)),
+  ];
+
+  for (const test of tiers) {
+    const matches = workflows.flatMap((wf) => {
+      const states = (wf.states as Array<Record<string, unknown>> | undefined) || [];
+      const match = states.find((s) => {
+        const name = s.name as string | undefined;
+        return name && test(name.toLowerCase());
+      });
+      return match ? [{ workflow: wf, state: match }] : [];
+    });
+    if (matches.length > 0) return matches;
+  }
+
+  return [];
+}
+
+// Fuzzy match state name to ID for a write; a name that matches in several
+// workflows is reported as ambiguous, never guessed.
+export async function resolveState(stateName: string, workflowId?: number): Promise<number | null> {
+  const matches = await matchStates(stateName, workflowId);
+  if (matches.length > 1) {
+    const candidates = matches.map((m) => `${m.state.name} (${m.workflow.name})`).join(", ");
+    throw new Error(`State "${stateName}" matches several workflows: ${candidates}. Pass workflow to choose.`);
+  }
+  return matches.length === 1 ? (matches[0].state.id as number) : null;
+}
+
+// Resolve a state within a workflow, listing that workflow's states when nothing matches
+async function resolveWorkflowState(
+  stateName: string,
+  workflowId?: number
+): Promise<{ id: number } | { error: string }> {
+  const stateId = await resolveState(stateName, workflowId);
+  if (stateId) return { id: stateId };
+
+  const workflows = (await getWorkflows()).filter((wf) => workflowId === undefined || wf.id === workflowId);
+  const allStates = workflows
+    .flatMap((wf) => ((wf.states as Array<Record<string, unknown>> | undefined) || []).map((s) => s.name))
+    .join(", ");
+  return { error: `State "${stateName}" not found. Valid states: ${allStates}` };
+}
+
+// Fuzzy match workflow name to the workflow record
+async function resolveWorkflow(input: string): Promise<Record<string, unknown>> {
+  const workflows = await getWorkflows();
+  const lower = input.trim().toLowerCase();
+
+  const match =
+    workflows.find((wf) => String(wf.id) === lower || String(wf.name || "").toLowerCase() === lower) ||
+    workflows.find((wf) => String(wf.name || "").toLowerCase().includes(lower));
+  if (match) return match;
+
+  throw new Error(`Workflow "${input}" not found. Valid workflows: ${workflows.map((wf) => wf.name).join(", ")}`);
+}
+
+// Resolve member by name or "me"
+async function resolveMember(input: string): Promise<string | null> {
+  if (input === "me") {
+    const member = await getCurrentMember();
+    return member.id as string;
+  }
+
+  const members = await getMembers();
+  const lower = input.toLowerCase();
+
+  const match = members.find((m) => {
+    const profile = m.profile as Record<string, unknown> | null | undefined;
+    if (!profile) return false;
+    const name = String(profile.name || "").toLowerCase();
+    const mention = String(profile.mention_name || "").toLowerCase();
+    return name.includes(lower) || mention.includes(lower);
+  });
+
+  return match ? (match.id as string) : null;
+}
+
+// Fuzzy match label names against existing labels; ambiguous names list their
+// candidates and unknown names get suggestions
+async function resolveLabels(names: string[]): Promise<{ labels: string[] } | { error: string }> {
+  const rows = (await getLabels()).filter((l) => !l.archived && l.name);
+  const labels = rows.map((l) => String(l.name));
+  const resolved: string[] = [];
+  const ambiguous: string[] = [];
+  const unknown: string[] = [];
+
+  for (const input of names) {
+    const lower = input.trim().toLowerCase();
+    if (labels.some((name) => name.toLowerCase().includes(lower))) {
+      try {
+        resolved.push(String(matchByName(rows, input, (l) => String(l.name), "Label").name));
+      } catch (error) {
+        ambiguous.push(error instanceof Error ? error.message : String(error));
+      }
+      continue;
+    }
+
+    // Suggest labels sharing a word or a three-letter prefix
+    const words = lower.split(/[\s\-_/]+/).filter((w) => w.length > 2);
+    const suggestions = labels
+      .filter((name) => {
+        const candidate = name.toLowerCase();
+        return (
+          candidate.startsWith(lower.slice(0, 3)) ||
+          lower.includes(candidate) ||
+          words.some((w) => candidate.includes(w))
+        );
+      })
+      .slice(0, 3);
+    unknown.push(
+      suggestions.length > 0 ? `"${input}" (did you mean: ${suggestions.join(", ")}?)` : `"${input}"`
+    );
+  }
+
+  if (ambiguous.length > 0) {
+    return { error: `${ambiguous.join("; ")}. Pass the full label name.` };
+  }
+  if (unknown.length > 0) {
+    return { error: `Unknown labels: ${unknown.join("; ")}. Labels are not created on update.` };
+  }
+
+  return { labels: resolved };
+}
+
+// Merge label additions and removals into a story's current labels
+function mergeLabels(
+  story: Record<string, unknown>,
+  add: string[],
+  remove: string[]
+): Array<{ name: string }> {
+  const current = ((story.labels as Array<{ name: string }> | undefined) || [])
+    .filter((l): l is { name: string } => l != null && typeof l.name === "string")
+    .map((l) => l.name);
+  const removed = new Set(remove.map((name) => name.toLowerCase()));
+
+  return [...new Set([...current, ...add])]
+    .filter((name) => !removed.has(name.toLowerCase()))
+    .map((name) => ({ name }));
+}
+
+// Custom field values on a story as [field name, value] pairs
+function storyFields(story: Record<string, unknown>, names: NameLookup): Array<[string, string]> {
+  return ((story.custom_fields as Array<Record<string, unknown>> | undefined) || [])
+    .filter((cf) => cf != null)
+    .map((cf) => [names.field(cf.field_id) || String(cf.field_id), String(cf.value ?? cf.value_id)]);
+}
+
+// Exact match first, then a unique partial match; otherwise an error naming the options
+function matchByName<T extends Record<string, unknown>>(
+  items: T[],
+  input: string,
+  nameOf: (item: T) => string,
+  what: string
+): T {
+  const lower = input.trim().toLowerCase();
+  const exact = items.find((item) => nameOf(item).toLowerCase() === lower);
+  if (exact) return exact;
+
+  const partial = items.filter((item) => nameOf(item).toLowerCase().includes(lower));
+  if (partial.length === 1) return partial[0];
+
+  const candidates = (partial.length > 1 ? partial : items).map(nameOf).join(", ");
+  throw new Error(
+    partial.length > 1
+      ? `${what} "${input}" matches several: ${candidates}`
+      : `${what} "${input}" not found. Valid: ${candidates}`
+  );
+}
+
+interface ResolvedField {
+  fieldId: string;
+  valueId: string | null;
+  label: string;
+}
+
+// Resolve {"Priority": "high"} to field and value ids; null clears a field
+async function resolveCustomFields(fields: Record<string, string | null>): Promise<ResolvedField[]> {
+  const definitions = (await getCustomFields()).filter((f) => f.enabled !== false);
+  const fieldName = (f: Record<string, unknown>) => String(f.name || "");
+
+  return Object.entries(fields).map(([name, value]) => {
+    const field = matchByName(definitions, name, fieldName, "Custom field");
+    if (value === null) return { fieldId: field.id as string, valueId: null, label: `${field.name} → none` };
+
+    const values = ((field.values as Array<Record<string, unknown>> | undefined) || []).filter(
+      (v) => v.enabled !== false
+    );
+    const match = matchByName(values, value, (v) => String(v.value || ""), `${field.name} value`);
+    return { fieldId: field.id as string, valueId: match.id as string, label: `${field.name} → ${match.value}` };
+  });
+}
+
+// Story custom_fields payload: the story's current values with the resolved ones applied
+function mergeCustomFields(
+  story: Record<string, unknown> | null,
+  resolved: ResolvedField[]
+): Array<{ field_id: string; value_id: string }> {
+  const values = new Map<string, string>();
+  for (const cf of (story?.custom_fields as Array<Record<string, unknown>> | undefined) || []) {
+    if (cf?.field_id && cf.value_id) values.set(cf.field_id as string, cf.value_id as string);
+  }
+  for (const { fieldId, valueId } of resolved) {
+    if (valueId) values.set(fieldId, valueId);
+    else values.delete(fieldId);
+  }
+  return [...values.entries()].map(([field_id, value_id]) => ({ field_id, value_id }));
+}
+
+// External links after adding (http/https URLs only) and removing the given ones
+function mergeExternalLinks(
+  story: Record<string, unknown>,
+  add: string[],
+  remove: string[]
+): { links: string[] } | { error: string } {
+  const current = ((story.external_links as string[] | undefined) || []).filter(Boolean);
+
+  const invalid = add.filter((link) => {
+    try {
+      return !/^https?:$/.test(new URL(link.trim()).protocol);
+    } catch {
+      return true;
+    }
+  });
+  if (invalid.length > 0) return { error: `Invalid links: ${invalid.join(", ")}. Links must be http(s) URLs.` };
+
+  const missing = remove.filter((link) => !current.includes(link.trim()));
+  if (missing.length > 0) {
+    return { error: `sc-${story.id} has no link ${missing.join(", ")}. Current links: ${current.join(", ") || "none"}` };
+  }
+
+  const removed = new Set(remove.map((link) => link.trim()));
+  return { links: [...new Set([...current, ...add.map((link) => link.trim())])].filter((l) => !removed.has(l)) };
+}
+
+// Format story for output with null safety
+function formatStory(
+  story: Record<string, unknown>,
+  stateName?: string,
+  names?: NameLookup
+): string {
+  const labels = ((story.labels as Array<{ name: string }> | undefined) || [])
+    .filter((l): l is { name: string } => l != null && typeof l.name === "string")
+    .map((l) => l.name)
+    .join(", ");
+  const withName = (id: unknown, name: string | null | undefined) => (name ? `${name} (${id})` : id);
+  const epic = story.epic_id ? withName(story.epic_id, names?.epic(story.epic_id)) : "none";
+  const iteration = story.iteration_id
+    ? withName(story.iteration_id, names?.iteration(story.iteration_id))
+    : "none";
+
+  const lines = [
+    `**sc-${story.id}**: ${story.name || "Untitled"}`,
+    `Type: ${story.story_type || "?"} | State: ${stateName || story.workflow_state_id || "?"} | Est: ${story.estimate ?? "?"} pts`,
+    `Epic: ${epic} | Iteration: ${iteration}`,
+  ];
+
+  if (names) {
+    const owners = ((story.owner_ids as string[] | undefined) || []).map((id) => names.member(id));
+    const followers = ((story.follower_ids as string[] | undefined) || []).map((id) => names.member(id));
+    const requester = story.requested_by_id ? names.member(story.requested_by_id) : "?";
+    lines.push(`Owners: ${owners.join(", ") || "unassigned"} | Requester: ${requester}`);
+    if (followers.length > 0) lines.push(`Followers: ${followers.join(", ")}`);
+  }
+
+  if (labels) lines.push(`Labels: ${labels}`);
+  if (names) {
+    const fields = storyFields(story, names);
+    if (fields.length > 0) lines.push(`Fields: ${fields.map(([name, value]) => `${name}: ${value}`).join(" | ")}`);
+  }
+  if (story.deadline) lines.push(`Deadline: ${String(story.deadline).slice(0, 10)}`);
+  if (story.app_url) lines.push(`Link: ${story.app_url}`);
+  if (story.description) lines.push("", String(story.description));
+
+  const development = formatDevelopment(story);
+  if (development.length > 0) lines.push("", ...development);
+
+  const attachments = formatAttachments(story);
+  if (attachments.length > 0) lines.push("", ...attachments);
+
+  const tasks = ((story.tasks as Array<Record<string, unknown>> | undefined) || []).filter(
+    (t): t is Record<string, unknown> => t != null
+  );
+  if (tasks.length > 0) {
+    const done = tasks.filter((t) => t.complete).length;
+    lines.push("", `Tasks (${done}/${tasks.length}):`, ...formatTaskList(tasks));
+  }
+
+  return lines.join("\n");
+}
+
+// Linked branches, pull requests and commits from the VCS integration
+function formatDevelopment(story: Record<string, unknown>): string[] {
+  const list = (key: string) =>
+    ((story[key] as Array<Record<string, unknown>> | undefined) || []).filter(
+      (item): item is Record<string, unknown> => item != null
+    );
+  const lines: string[] = [];
+
+  const branches = list("branches").filter((b) => !b.deleted);
+  if (branches.length > 0) {
+    lines.push(`Branches: ${branches.map((b) => b.name).join(", ")}`);
+  }
+
+  const pullRequests = list("pull_requests");
+  for (const pr of pullRequests) {
+    const status = pr.merged ? "merged" : pr.closed ? "closed" : pr.draft ? "draft" : "open";
+    lines.push(`PR #${pr.number} [${status}] ${pr.title || ""} ${pr.url || ""}`.trimEnd());
+  }
+
+  const commits = list("commits");
+  for (const commit of commits.slice(0, 5)) {
+    const message = String(commit.message || "").split("\n")[0];
+    lines.push(`Commit ${String(commit.hash || "").slice(0, 7)} ${message}`.trimEnd());
+  }
+  if (commits.length > 5) lines.push(`... ${commits.length - 5} more commits`);
+
+  return lines;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Uploaded files and external links (Sentry, Grafana, ...)
+function formatAttachments(story: Record<string, unknown>): string[] {
+  const files = ((story.files as Array<Record<string, unknown>> | undefined) || []).filter(
+    (file): file is Record<string, unknown> => file != null
+  );
+  const links = ((story.external_links as string[] | undefined) || []).filter(Boolean);
+  const lines: string[] = [];
+
+  if (files.length > 0) {
+    lines.push("Attachments:");
+    for (const file of files) {
+      const size = typeof file.size === "number" ? ` (${formatSize(file.size)})` : "";
+      lines.push(`- ${file.name || file.filename || "file"}${size}: ${file.url || "?"}`);
+    }
+  }
+  if (links.length > 0) {
+    lines.push("External links:", ...links.map((link) => `- ${link}`));
+  }
+
+  return lines;
+}
+
+// Format tasks as a numbered checklist
+function formatTaskList(tasks: Array<Record<string, unknown>>): string[] {
+  return tasks.map((t, i) => `${i + 1}. [${t.complete ? "x" : " "}] ${t.description || ""}`);
+}
+
+// Normalized story objects for format: "json"
+type OutputFormat = "markdown" | "json";
+
+function normalizeStory(
+  story: Record<string, unknown>,
+  names: NameLookup,
+  states: Map<number, StateInfo>
+): Record<string, unknown> {
+  const state = states.get(story.workflow_state_id as number);
+  const ref = (id: unknown, name: string | null) => (id ? { id, name } : null);
+
+  return {
+    id: story.id,
+    name: story.name ?? null,
+    type: story.story_type ?? null,
+    state: state?.name ?? null,
+    state_type: state?.type ?? (story.completed ? "done" : story.started ? "started" : "unstarted"),
+    estimate: story.estimate ?? null,
+    owners: ((story.owner_ids as string[] | undefined) || []).map((id) => ({ id, name: names.member(id) })),
+    epic: ref(story.epic_id, names.epic(story.epic_id)),
+    iteration: ref(story.iteration_id, names.iteration(story.iteration_id)),
+    labels: ((story.labels as Array<{ name: string }> | undefined) || [])
+      .filter((l) => l != null)
+      .map((l) => l.name),
+    fields: Object.fromEntries(storyFields(story, names)),
+    deadline: story.deadline ?? null,
+    url: story.app_url ?? null,
+  };
+}
+
+async function normalizeStories(stories: Array<Record<string, unknown>>): Promise<Array<Record<string, unknown>>> {
+  const [names, states] = await Promise.all([getNameLookup(), getStateLookup()]);
+  return stories.filter((s) => s != null).map((s) => normalizeStory(s, names, states));
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+// Format story list with null safety
+function formatStoryList(stories: Array<Record<string, unknown>>): string {
+  if (!stories || stories.length === 0) return "No stories found.";
+
+  return stories
+    .filter((s): s is Record<string, unknown> => s != null)
+    .map((s) => {
+      const state = s.completed ? "done" : s.started ? "started" : "unstarted";
+      return `- **sc-${s.id}** [${state}] ${s.name || "Untitled"} (${s.story_type || "?"}, ${s.estimate ?? "?"}pts)`;
+    })
+    .join("\n");
+}
+
+// Normalize search response (handles both array and {data:[]} formats)
+function normalizeSearchResponse(response: unknown): Array<Record<string, unknown>> {
+  if (Array.isArray(response)) {
+    return response;
+  }
+  if (response && typeof response === "object" && "data" in response) {
+    const data = (response as { data: unknown }).data;
+    if (Array.isArray(data)) return data;
+  }
+  return [];
+}
+
+// Pagination with opaque cursors. Text searches follow Shortcut's /search/stories
+// `next` links; filter searches (/stories/search is unpaginated) are sliced locally.
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 250;
+// Shortcut rejects a larger page_size on /search/stories
+const TEXT_PAGE_SIZE = 25;
+
+interface SearchCursor {
+  next?: string;
+  body?: Record<string, unknown>;
+  match?: LocalMatch;
+  offset?: number;
+  limit?: number;
+}
+
+// Filters /stories/search cannot express in one call: several states become one
+// search per state; the rest are applied to its results
+interface LocalMatch {
+  stateIds?: number[];
+  estimateMin?: number;
+  estimateMax?: number;
+  unowned?: boolean;
+  // Custom field values; a null value matches stories without the field
+  fields?: Array<{ fieldId: string; valueId: string | null }>;
+}
+
+function matchesLocally(story: Record<string, unknown>, match: LocalMatch): boolean {
+  if (match.stateIds && !match.stateIds.includes(story.workflow_state_id as number)) return false;
+  if (match.unowned && ((story.owner_ids as string[] | undefined) || []).length > 0) return false;
+  if (match.fields) {
+    const values = ((story.custom_fields as Array<Record<string, unknown>> | undefined) || []).filter(
+      (cf) => cf != null
+    );
+    for (const { fieldId, valueId } of match.fields) {
+      const current = values.find((cf) => cf.field_id === fieldId)?.value_id ?? null;
+      if (current !== valueId) return false;
+    }
+  }
+  if (match.estimateMin !== undefined || match.estimateMax !== undefined) {
+    if (typeof story.estimate !== "number") return false;
+    if (match.estimateMin !== undefined && story.estimate < match.estimateMin) return false;
+    if (match.estimateMax !== undefined && story.estimate > match.estimateMax) return false;
+  }
+  return true;
+}
+
+interface StoryPage {
+  stories: Array<Record<string, unknown>>;
+  total: number | null;
+  cursor: string | null;
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): SearchCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (decoded && typeof decoded === "object") return decoded as SearchCursor;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid cursor. Pass the cursor from a previous result unchanged.");
+}
+
+function clampLimit(limit?: number): number {
+  if (limit === undefined || !Number.isFinite(limit)) return DEFAULT_PAGE_SIZE;
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE);
+}
+
+async function fetchTextPage(path: string): Promise<StoryPage> {
+  if (!path.startsWith("/search/stories?")) {
+    throw new Error("Invalid cursor. Pass the cursor from a previous result unchanged.");
+  }
+
+  const response = (await api("GET", path)) as Record<string, unknown> | null;
+  const next = typeof response?.next === "string" ? response.next.replace(/^\/api\/v3/, "") : null;
+
+  return {
+    stories: normalizeSearchResponse(response),
+    total: typeof response?.total === "number" ? response.total : null,
+    cursor: next ? encodeCursor({ next }) : null,
+  };
+}
+
+async function fetchFilterPage(
+  body: Record<string, unknown>,
+  offset: number,
+  limit: number,
+  match?: LocalMatch
+): Promise<StoryPage> {
+  const bodies = match?.stateIds ? match.stateIds.map((id) => ({ ...body, workflow_state_id: id })) : [body];
+  const responses = await Promise.all(bodies.map((b) => api("POST", "/stories/search", b)));
+  const stories = responses
+    .flatMap((response) => normalizeSearchResponse(response))
+    .filter((s) => s != null && (!match || matchesLocally(s, match)));
+  const end = offset + limit;
+
+  return {
+    stories: stories.slice(offset, end),
+    total: stories.length,
+    cursor: end < stories.length ? encodeCursor({ body, match, offset: end, limit }) : null,
+  };
+}
+
+async function fetchCursorPage(cursor: string, limit?: number): Promise<StoryPage> {
+  const decoded = decodeCursor(cursor);
+  if (decoded.next) return fetchTextPage(decoded.next);
+  if (decoded.body) {
+    return fetchFilterPage(decoded.body, decoded.offset || 0, clampLimit(limit ?? decoded.limit), decoded.match);
+  }
+  throw new Error("Invalid cursor. Pass the cursor from a previous result unchanged.");
+}
+
+// Format a page of stories with a continuation hint
+async function formatStoryPage(
+  page: StoryPage,
+  action: Record<string, unknown>,
+  format: OutputFormat = "markdown"
+): Promise<string> {
+  if (format === "json") {
+    return toJson({ stories: await normalizeStories(page.stories), total: page.total, cursor: page.cursor });
+  }
+
+  let result = formatStoryList(page.stories);
+
+  if (page.cursor) {
+    const total = page.total !== null ? ` of ${page.total}` : "";
+    const next = JSON.stringify({ ...action, cursor: page.cursor });
+    result += `\n\nShowing ${page.stories.length}${total}. Next page: ${next}`;
+  }
+
+  return result;
+}
+
+const STORY_TYPES = ["feature", "bug", "chore"];
+
+const FILTER_KEYS = [
+  "owner", "unowned", "requester", "state", "workflow", "labels", "epic", "iteration", "team", "type",
+  "estimate", "created_after", "created_before", "updated_after", "updated_before",
+  "completed_after", "completed_before", "fields", "archived",
+];
+
+// /stories/search params that bound a search; filters matched locally need one of them
+const NARROWING_PARAMS = [
+  "owner_ids", "requested_by_id", "workflow_state_id", "label_ids", "group_ids", "epic_ids", "iteration_ids",
+  "created_at_start", "created_at_end", "updated_at_start", "updated_at_end", "completed_at_start", "completed_at_end",
+];
+
+// Date filters and their /stories/search params
+const DATE_FILTERS: Record<string, string> = {
+  created_after: "created_at_start",
+  created_before: "created_at_end",
+  updated_after: "updated_at_start",
+  updated_before: "updated_at_end",
+  completed_after: "completed_at_start",
+  completed_before: "completed_at_end",
+};
+
+function asList(value: unknown): string[] {
+  return (Array.isArray(value) ? value : [value]).map((v) => String(v).trim()).filter(Boolean);
+}
+
+// Teams are Shortcut groups, matched by id, name or mention name
+async function findTeam(input: string): Promise<Record<string, unknown>> {
+  const groups = (await getGroups()).filter((g) => !g.archived);
+  const lower = input.trim().replace(/^@/, "").toLowerCase();
+
+  const match =
+    groups.find((g) => [g.id, g.name, g.mention_name].some((v) => String(v || "").toLowerCase() === lower)) ||
+    groups.find((g) => String(g.name || "").toLowerCase().includes(lower));
+  if (match) return match;
+
+  throw new Error(`Team "${input}" not found. Valid teams: ${groups.map((g) => g.name).join(", ")}`);
+}
+
+async function resolveTeam(input: string): Promise<string> {
+  return (await findTeam(input)).id as string;
+}
+
+// Team new stories land on: the workspace's configured team, else SHORTCUT_DEFAULT_TEAM
+function defaultTeam(): string | undefined {
+  return currentWorkspace().team || process.env.SHORTCUT_DEFAULT_TEAM || undefined;
+}
+
+async function resolveFilterMember(input: string, filter: string): Promise<string> {
+  const memberId = await resolveMember(input);
+  if (!memberId) throw new Error(`Could not find member "${input}" for ${filter} filter`);
+  return memberId;
+}
+
+// Epics and iterations by id or URL, else by name
+async function resolveFilterRef(input: string, filter: "epic" | "iteration"): Promise<number> {
+  if (/^(sc-)?\d+$/i.test(input) || /shortcut\.com\//i.test(input)) return resolveId(input);
+  const items = filter === "epic" ? await getEpics() : await getIterations();
+  const what = filter === "epic" ? "Epic" : "Iteration";
+  return matchByName(items, input, (item) => String(item.name || ""), what).id as number;
+}
+
+// Build /stories/search params from an object query (or the default), plus the
+// filters it cannot express. Values that do not resolve are errors, never dropped.
+async function buildFilterParams(
+  query?: Record<string, unknown>
+): Promise<{ body: Record<string, unknown>; match?: LocalMatch }> {
+  if (!query) {
+    // Default: my active stories
+    const member = await getCurrentMember();
+    return {
+      body: {
+        owner_ids: [member.id],
+        archived: false,
+      },
+    };
+  }
+
+  const unknown = Object.keys(query).filter((k) => !FILTER_KEYS.includes(k));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown search filter: ${unknown.join(", ")}. Valid filters: ${FILTER_KEYS.join(", ")}`);
+  }
+
+  const body: Record<string, unknown> = {};
+  const match: LocalMatch = {};
+
+  if (query.owner && query.unowned) {
+    throw new Error("Pass either owner or unowned, not both");
+  }
+  if (query.owner) {
+    body.owner_ids = await Promise.all(asList(query.owner).map((o) => resolveFilterMember(o, "owner")));
+  }
+  if (query.unowned) match.unowned = true;
+  if (query.requester) body.requested_by_id = await resolveFilterMember(String(query.requester), "requester");
+
+  if (query.state) {
+    const workflowId = query.workflow ? ((await resolveWorkflow(String(query.workflow))).id as number) : undefined;
+    // Without a workflow, a state name filters on that state in every workflow that has it
+    const stateIds = (
+      await Promise.all(
+        asList(query.state).map(async (name) => {
+          const matches = await matchStates(name, workflowId);
+          if (matches.length === 0) throw new Error(`State "${name}" not found`);
+          return matches.map((m) => m.state.id as number);
+        })
+      )
+    ).flat();
+    if (stateIds.length === 1) body.workflow_state_id = stateIds[0];
+    else match.stateIds = stateIds;
+  } else if (query.workflow) {
+    const workflow = await resolveWorkflow(String(query.workflow));
+    match.stateIds = ((workflow.states as Array<Record<string, unknown>> | undefined) || []).map((s) => s.id as number);
+  }
+
+  if (query.labels) {
+    const resolved = await resolveLabels(asList(query.labels));
+    if ("error" in resolved) throw new Error(resolved.error);
+    const labels = await getLabels();
+    body.label_ids = resolved.labels.map((name) => labels.find((l) => l.name === name)?.id);
+  }
+
+  if (query.team) body.group_ids = await Promise.all(asList(query.team).map(resolveTeam));
+
+  if (query.estimate !== undefined) {
+    const estimate = query.estimate;
+    if (typeof estimate === "number") {
+      body.estimate = estimate;
+    } else if (estimate && typeof estimate === "object") {
+      const { min, max } = estimate as { min?: unknown; max?: unknown };
+      if ((min !== undefined && typeof min !== "number") || (max !== undefined && typeof max !== "number")) {
+        throw new Error("estimate filter takes a number or {min, max} numbers");
+      }
+      match.estimateMin = min;
+      match.estimateMax = max;
+    } else {
+      throw new Error("estimate filter takes a number or {min, max} numbers");
+    }
+  }
+
+  if (query.fields) {
+    if (typeof query.fields !== "object" || Array.isArray(query.fields)) {
+      throw new Error('fields filter takes an object, e.g. {"Priority": "High"}');
+    }
+    const resolved = await resolveCustomFields(query.fields as Record<string, string | null>);
+    match.fields = resolved.map(({ fieldId, valueId }) => ({ fieldId, valueId }));
+  }
+
+  for (const [filter, param] of Object.entries(DATE_FILTERS)) {
+    if (query[filter]) body[param] = toShortcutDate(String(query[filter]));
+  }
+
+  if (query.epic) body.epic_ids = await Promise.all(asList(query.epic).map((e) => resolveFilterRef(e, "epic")));
+  if (query.iteration) {
+    body.iteration_ids = await Promise.all(asList(query.iteration).map((i) => resolveFilterRef(i, "iteration")));
+  }
+  if (query.type) {
+    const type = String(query.type).trim().toLowerCase();
+    if (!STORY_TYPES.includes(type)) {
+      throw new Error(`Invalid type "${query.type}". Valid types: ${STORY_TYPES.join(", ")}`);
+    }
+    body.story_type = type;
+  }
+  if (query.archived !== undefined) body.archived = query.archived;
+
+  // unowned, estimate ranges and fields filter results locally, so they would pull
+  // the whole workspace through /stories/search without a filter that bounds it
+  const local = [
+    match.unowned && "unowned",
+    (match.estimateMin !== undefined || match.estimateMax !== undefined) && "estimate ranges",
+    match.fields && "fields",
+  ].filter(Boolean);
+  if (local.length > 0 && !match.stateIds && !NARROWING_PARAMS.some((p) => body[p] !== undefined)) {
+    throw new Error(
+      `${local.join(", ")} must be combined with owner, requester, state, workflow, labels, team, epic, ` +
+        "iteration or a date filter"
+    );
+  }
+
+  return Object.keys(match).length > 0 ? { body, match } : { body };
+}
+
+// Action handlers
+async function handleSearch(
+  query?: string | Record<string, unknown>,
+  limit?: number,
+  cursor?: string,
+  format?: OutputFormat
+): Promise<string> {
+  const action = { action: "search" };
+
+  if (cursor) {
+    return formatStoryPage(await fetchCursorPage(cursor, limit), action, format);
+  }
+
+  const pageSize = clampLimit(limit);
+
+  if (typeof query === "string") {
+    // Text search using Shortcut query syntax; larger limits page through `next`
+    const textPageSize = Math.min(pageSize, TEXT_PAGE_SIZE);
+    const params = new URLSearchParams({ query, page_size: String(textPageSize), detail: "slim" });
+    const page = await fetchTextPage(`/search/stories?${params}`);
+    return formatStoryPage(page, action, format);
+  }
+
+  const { body, match } = await buildFilterParams(query);
+  const page = await fetchFilterPage(body, 0, pageSize, match);
+  return formatStoryPage(page, action, format);
+}
+
+// Comment threads and mentions. Shortcut stores mentions as [@mention](shortcutapp://members/<id>)
+const MENTION_LINK = /\[@([^\]]+)\]\(shortcutapp:\/\/members\/([^)]+)\)/g;
+const THREADS_SHOWN = 5;
+
+interface CommentThread {
+  comment: Record<string, unknown>;
+  replies: Array<Record<string, unknown>>;
+}
+
+// Top-level comments newest first, each with its replies oldest first
+function commentThreads(story: Record<string, unknown>): CommentThread[] {
+  const comments = ((story.comments as Array<Record<string, unknown>> | undefined) || []).filter(
+    (c): c is Record<string, unknown> => c != null && !c.deleted
+  );
+  const ids = new Set(comments.map((c) => c.id));
+  const byDate = (a: Record<string, unknown>, b: Record<string, unknown>) =>
+    String(a.created_at || "").localeCompare(String(b.created_at || ""));
+
+  // Replies to a deleted parent are shown as threads of their own
+  const isReply = (c: Record<string, unknown>) => c.parent_id != null && ids.has(c.parent_id);
+  return comments
+    .filter((c) => !isReply(c))
+    .sort((a, b) => byDate(b, a))
+    .map((comment) => ({
+      comment,
+      replies: comments.filter((c) => isReply(c) && c.parent_id === comment.id).sort(byDate),
+    }));
+}
+
+// Mention links back to readable @names
+function commentText(comment: Record<string, unknown>, names: NameLookup): string {
+  return String(comment.text || "").replace(MENTION_LINK, (_, _mention, id) => `@${names.member(id)}`);
+}
+
+function formatReactions(comment: Record<string, unknown>): string {
+  const reactions = ((comment.reactions as Array<Record<string, unknown>> | undefined) || []).filter(
+    (r) => r != null
+  );
+  if (reactions.length === 0) return "";
+  const counts = reactions.map((r) => `${r.emoji} ${((r.permission_ids as unknown[] | undefined) || []).length}`);
+  return ` [${counts.join(", ")}]`;
+}
+
+// Replies are marked and indented under their parent
+function formatComment(comment: Record<string, unknown>, names: NameLookup, reply = false): string {
+  const author = comment.author_id ? names.member(comment.author_id) : "Unknown";
+  const edited = comment.updated_at && comment.updated_at !== comment.created_at ? ", edited" : "";
+  const meta = `#${comment.id}, ${comment.created_at || "?"}${edited}`;
+  const header = `${reply ? "  ↳ " : ""}**${author}** (${meta})${formatReactions(comment)}:`;
+  const body = commentText(comment, names)
+    .split("\n")
+    .map((line) => (reply ? `    ${line}` : line))
+    .join("\n");
+  return `${header}\n${body}`;
+}
+
+// "@grace" → a member mention link; names that match no member stay plain text
+async function resolveMentions(text: string): Promise<{ text: string; unresolved: string[] }> {
+  const members = await getMembers();
+  const unresolved: string[] = [];
+  const profileOf = (m: Record<string, unknown>) => (m.profile as Record<string, unknown> | undefined) || {};
+
+  const resolved = text.replace(/(^|[\s(])@([\w-]+(?:\.[\w-]+)*)/g, (whole, lead: string, name: string) => {
+    const lower = name.toLowerCase();
+    const byFirstName = members.filter(
+      (m) => String(profileOf(m).name || "").toLowerCase().split(/\s+/)[0] === lower
+    );
+    const member =
+      members.find((m) => String(profileOf(m).mention_name || "").toLowerCase() === lower) ||
+      members.find((m) => String(profileOf(m).name || "").toLowerCase().replace(/\s+/g, "") === lower) ||
+      (byFirstName.length === 1 ? byFirstName[0] : undefined);
+
+    if (!member) {
+      unresolved.push(`@${name}`);
+      return whole;
+    }
+    return `${lead}[@${profileOf(member).mention_name || name}](shortcutapp://members/${member.id})`;
+  });
+
+  return { text: resolved, unresolved };
+}
+
+async function handleGet(id: string, format?: OutputFormat): Promise<string> {
+  const storyId = resolveId(id);
+  const story = (await api("GET", `/stories/${storyId}`)) as Record<string, unknown>;
+
+  if (!story) {
+    return `Story sc-${storyId} not found`;
+  }
+
+  if (format === "json") {
+    const [names, states] = await Promise.all([getNameLookup(), getStateLookup()]);
+    const member = (memberId: unknown) => (memberId ? { id: memberId, name: names.member(memberId) } : null);
+    return toJson({
+      ...normalizeStory(story, names, states),
+      description: story.description || "",
+      requester: member(story.requested_by_id),
+      followers: ((story.follower_ids as string[] | undefined) || []).map(member),
+      tasks: ((story.tasks as Array<Record<string, unknown>> | undefined) || [])
+        .filter((t) => t != null)
+        .map((t) => ({ description: t.description, complete: Boolean(t.complete) })),
+      links: ((story.story_links as Array<Record<string, unknown>> | undefined) || [])
+        .filter((l) => l != null)
+        .map((l) => {
+          const { label, otherId } = describeLink(l);
+          return { relation: label.toLowerCase(), id: otherId };
+        }),
+      files: ((story.files as Array<Record<string, unknown>> | undefined) || [])
+        .filter((file) => file != null)
+        .map((file) => ({ name: file.name ?? null, url: file.url ?? null, size: file.size ?? null })),
+      external_links: (story.external_links as string[] | undefined) || [],
+      // Oldest thread first, as Shortcut returns them
+      comments: commentThreads(story).reverse().map(({ comment, replies }) => {
+        const toJsonComment = (c: Record<string, unknown>) => ({
+          id: c.id,
+          author: member(c.author_id),
+          text: commentText(c, names),
+          created_at: c.created_at ?? null,
+        });
+        return { ...toJsonComment(comment), replies: replies.map(toJsonComment) };
+      }),
+    });
+  }
+
+  const stateName = await getStateName(story.workflow_state_id as number);
+  const names = await getNameLookup();
+  let result = formatStory(story, stateName, names);
+
+  // Include blockers, duplicates and related stories
+  const relationships = await formatRelationships(story);
+  if (relationships) result += "\n\n## Relationships\n" + relationships;
+
+  // Include recent comment threads, newest first, with replies nested under their parent
+  const threads = commentThreads(story);
+  if (threads.length > 0) {
+    result += "\n\n## Recent Comments\n";
+    result += threads
+      .slice(0, THREADS_SHOWN)
+      .map(({ comment, replies }) =>
+        [formatComment(comment, names), ...replies.map((r) => formatComment(r, names, true))].join("\n")
+      )
+      .join("\n\n");
+    if (threads.length > THREADS_SHOWN) {
+      const older = threads.length - THREADS_SHOWN;
+      result += `\n\n... ${older} older thread${older === 1 ? "" : "s"} omitted`;
+    }
+  }
+
+  return result;
+}
+
+interface StoryUpdates {
+  state?: string;
+  estimate?: number;
+  owner?: string | null;
+  type?: string;
+  name?: string;
+  description?: string;
+  iteration?: number | null;
+  epic?: number | null;
+  team?: string | null;
+  deadline?: string | null;
+  requester?: string;
+  fields?: Record<string, string | null>;
+  addLabels?: string[];
+  removeLabels?: string[];
+  addLinks?: string[];
+  removeLinks?: string[];
+}
+
+// Resolve names in an update to a Shortcut story payload; states are
+// resolved within workflowId (the story's workflow) when given
+async function buildStoryInput(
+  updates: StoryUpdates,
+  workflowId?: number
+): Promise<{ input: Record<string, unknown> } | { error: string }> {
+  const input: Record<string, unknown> = {};
+
+  if (updates.state) {
+    const state = await resolveWorkflowState(updates.state, workflowId);
+    if ("error" in state) return state;
+    input.workflow_state_id = state.id;
+  }
+
+  if (updates.estimate !== undefined) input.estimate = updates.estimate;
+  if (updates.name) input.name = updates.name;
+  if (updates.description) input.description = updates.description;
+  if (updates.type) input.story_type = updates.type;
+  if (updates.iteration !== undefined) input.iteration_id = updates.iteration;
+  if (updates.epic !== undefined) input.epic_id = updates.epic;
+  if (updates.team !== undefined) input.group_id = updates.team === null ? null : await resolveTeam(updates.team);
+  if (updates.deadline !== undefined) input.deadline = toShortcutDate(updates.deadline);
+
+  if (updates.requester) {
+    const memberId = await resolveMember(updates.requester);
+    if (!memberId) return { error: `Could not find member "${updates.requester}"` };
+    input.requested_by_id = memberId;
+  }
+
+  if (updates.owner !== undefined) {
+    if (updates.owner === null) {
+      input.owner_ids = [];
+    } else {
+      const memberId = await resolveMember(updates.owner);
+      if (memberId) {
+        input.owner_ids = [memberId];
+      } else {
+        return { error: `Could not find member "${updates.owner}"` };
+      }
+    }
+  }
+
+  return { input };
+}
+
+async function handleUpdate(id: string, updates: StoryUpdates): Promise<string> {
+  const storyId = resolveId(id);
+  const addLabels = updates.addLabels || [];
+  const removeLabels = updates.removeLabels || [];
+  const hasLabels = addLabels.length > 0 || removeLabels.length > 0;
+  const hasFields = Object.keys(updates.fields || {}).length > 0;
+  const addLinks = updates.addLinks || [];
+  const removeLinks = updates.removeLinks || [];
+  const hasLinks = addLinks.length > 0 || removeLinks.length > 0;
+
+  // State names resolve within the story's own workflow; labels, custom fields
+  // and external links merge with its current ones
+  const current =
+    updates.state || hasLabels || hasFields || hasLinks
+      ? ((await api("GET", `/stories/${storyId}`)) as Record<string, unknown>)
+      : null;
+  const built = await buildStoryInput(updates, current?.workflow_id as number | undefined);
+
+  if ("error" in built) {
+    return built.error;
+  }
+
+  const { input } = built;
+  let added: string[] = [];
+  let removed: string[] = [];
+
+  if (current && hasLabels) {
+    const toAdd = await resolveLabels(addLabels);
+    if ("error" in toAdd) return toAdd.error;
+    const toRemove = await resolveLabels(removeLabels);
+    if ("error" in toRemove) return toRemove.error;
+
+    added = toAdd.labels;
+    removed = toRemove.labels;
+    input.labels = mergeLabels(current, added, removed);
+  }
+
+  const fields = hasFields ? await resolveCustomFields(updates.fields!) : [];
+  if (fields.length > 0) input.custom_fields = mergeCustomFields(current, fields);
+
+  if (current && hasLinks) {
+    const links = mergeExternalLinks(current, addLinks, removeLinks);
+    if ("error" in links) return links.error;
+    input.external_links = links.links;
+  }
+
+  if (Object.keys(input).length === 0) {
+    return "No updates provided";
+  }
+
+  const story = (await api("PUT", `/stories/${storyId}`, input)) as Record<string, unknown>;
+  const stateName = await getStateName(story.workflow_state_id as number);
+
+  const changes: string[] = [];
+  if (updates.state) changes.push(`state → ${stateName}`);
+  if (updates.estimate !== undefined) changes.push(`estimate → ${updates.estimate}`);
+  if (updates.owner !== undefined) changes.push(`owner → ${updates.owner || "unassigned"}`);
+  if (updates.iteration !== undefined) changes.push(`iteration → ${updates.iteration ?? "none"}`);
+  if (updates.epic !== undefined) changes.push(`epic → ${updates.epic ?? "none"}`);
+  if (updates.team !== undefined) changes.push(`team → ${updates.team ?? "none"}`);
+  if (updates.deadline !== undefined) changes.push(`deadline → ${updates.deadline ?? "none"}`);
+  if (updates.requester) changes.push(`requester → ${updates.requester}`);
+  changes.push(...fields.map((f) => f.label));
+  if (addLinks.length > 0) changes.push(`links + ${addLinks.join(", ")}`);
+  if (removeLinks.length > 0) changes.push(`links − ${removeLinks.join(", ")}`);
+  if (added.length > 0) changes.push(`labels + ${added.join(", ")}`);
+  if (removed.length > 0) changes.push(`labels − ${removed.join(", ")}`);
+  if (updates.name) changes.push(`name updated`);
+  if (updates.type) changes.push(`type → ${updates.type}`);
+
+  return `Updated sc-${story.id}: ${changes.join(", ")}\n${story.app_url}`;
+}
+
+// Story links: "subject blocks object", read from either side
+const LINK_VERBS: Record<string, { verb: string; inverse: boolean }> = {
+  blocks: { verb: "blocks", inverse: false },
+  block: { verb: "blocks", inverse: false },
+  "blocked by": { verb: "blocks", inverse: true },
+  "is blocked by": { verb: "blocks", inverse: true },
+  duplicates: { verb: "duplicates", inverse: false },
+  duplicate: { verb: "duplicates", inverse: false },
+  "duplicated by": { verb: "duplicates", inverse: true },
+  "relates to": { verb: "relates to", inverse: false },
+  relates: { verb: "relates to", inverse: false },
+  related: { verb: "relates to", inverse: false },
+};
+
+function resolveLinkVerb(input: string): { verb: string; inverse: boolean } {
+  const match = LINK_VERBS[input.trim().toLowerCase()];
+  if (!match) {
+    throw new Error(`Unknown verb "${input}". Valid verbs: blocks, blocked by, duplicates, relates to`);
+  }
+  return match;
+}
+
+// Describe a story link from the perspective of the story that holds it
+function describeLink(link: Record<string, unknown>): { label: string; otherId: number } {
+  const isSubject = link.type === "subject";
+  const otherId = (isSubject ? link.object_id : link.subject_id) as number;
+  const labels: Record<string, [string, string]> = {
+    blocks: ["Blocks", "Blocked by"],
+    duplicates: ["Duplicates", "Duplicated by"],
+    "relates to": ["Related", "Related"],
+  };
+  const [active, passive] = labels[link.verb as string] || [String(link.verb), String(link.verb)];
+  return { label: isSubject ? active : passive, otherId };
+}
+
+async function formatRelationships(story: Record<string, unknown>): Promise<string> {
+  const links = ((story.story_links as Array<Record<string, unknown>> | undefined) || []).filter(
+    (l): l is Record<string, unknown> => l != null
+  );
+  if (links.length === 0) return "";
+
+  const described = links.map(describeLink);
+  const linked = await mapWithConcurrency(described, BATCH_CONCURRENCY, async ({ otherId }) => {
+    try {
+      return (await api("GET", `/stories/${otherId}`)) as Record<string, unknown>;
+    } catch {
+      return null;
+    }
+  });
+
+  const sections = new Map<string, string[]>();
+  let openBlockers = 0;
+
+  for (let i = 0; i < described.length; i++) {
+    const { label, otherId } = described[i];
+    const other = linked[i];
+    let line = `- **sc-${otherId}**`;
+
+    if (other) {
+      const stateName = await getStateName(other.workflow_state_id as number);
+      line += ` ${other.name || "Untitled"} [${stateName}]`;
+      if (label === "Blocked by" && !other.completed) {
+        openBlockers++;
+        line += " (open)";
+      }
+    }
+
+    sections.set(label, [...(sections.get(label) || []), line]);
+  }
+
+  const order = ["Blocked by", "Blocks", "Duplicates", "Duplicated by", "Related"];
+  const labels = [...sections.keys()].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  let result = labels.map((label) => `${label}:\n${sections.get(label)!.join("\n")}`).join("\n");
+
+  if (openBlockers > 0) {
+    result = `${openBlockers} open blocker${openBlockers === 1 ? "" : "s"}: this story cannot progress yet.\n${result}`;
+  }
+
+  return result;
+}
+
+async function handleLink(id: string, target: string, verbInput: string): Promise<string> {
+  const storyId = resolveId(id);
+  const targetId = resolveId(target);
+  const { verb, inverse } = resolveLinkVerb(verbInput);
+
+  if (storyId === targetId) {
+    return "A story cannot be linked to itself";
+  }
+
+  const [subjectId, objectId] = inverse ? [targetId, storyId] : [storyId, targetId];
+  await api("POST", "/story-links", { subject_id: subjectId, object_id: objectId, verb });
+
+  return `Linked: sc-${subjectId} ${verb} sc-${objectId}`;
+}
+
+async function handleUnlink(id: string, target: string, verbInput?: string): Promise<string> {
+  const storyId = resolveId(id);
+  const targetId = resolveId(target);
+  const verb = verbInput ? resolveLinkVerb(verbInput).verb : undefined;
+
+  const story = (await api("GET", `/stories/${storyId}`)) as Record<string, unknown>;
+  const links = ((story.story_links as Array<Record<string, unknown>> | undefined) || []).filter(
+    (l) => l != null && describeLink(l).otherId === targetId && (!verb || l.verb === verb)
+  );
+
+  if (links.length === 0) {
+    return `No ${verb ? `"${verb}" ` : ""}link between sc-${storyId} and sc-${targetId}`;
+  }
+
+  for (const link of links) {
+    await api("DELETE", `/story-links/${link.id}`);
+  }
+
+  const removed = links.map((l) => `sc-${l.subject_id} ${l.verb} sc-${l.object_id}`).join(", ");
+  return `Unlinked: ${removed}`;
+}
+
+interface CommentOptions {
+  parentId?: number;
+  commentId?: number;
+  delete?: boolean;
+  reaction?: string;
+}
+
+// Post, reply to, edit or delete a comment, or react to one
+async function handleComment(id: string, body: string | undefined, options: CommentOptions = {}): Promise<string> {
+  const storyId = resolveId(id);
+
+  if (options.commentId !== undefined) {
+    const path = `/stories/${storyId}/comments/${options.commentId}`;
+
+    if (options.reaction) {
+      const emoji = `:${options.reaction.replace(/^:|:$/g, "")}:`;
+      await api("POST", `${path}/reactions`, { emoji });
+      return `Reacted ${emoji} to comment #${options.commentId} on sc-${storyId}`;
+    }
+
+    // Only your own comments can be edited or deleted
+    const [comment, member] = await Promise.all([
+      api("GET", path) as Promise<Record<string, unknown>>,
+      getCurrentMember(),
+    ]);
+    if (comment.author_id !== member.id) {
+      const names = await getNameLookup();
+      return `Comment #${options.commentId} on sc-${storyId} was written by ${names.member(comment.author_id)}; only your own comments can be edited or deleted`;
+    }
+
+    if (options.delete) {
+      await api("DELETE", path);
+      return `Deleted comment #${options.commentId} from sc-${storyId}`;
+    }
+
+    if (!body) throw new Error("body, delete or reaction is required with comment_id");
+    const { text, unresolved } = await resolveMentions(body);
+    await api("PUT", path, { text });
+    return `Edited comment #${options.commentId} on sc-${storyId}${unresolvedNote(unresolved)}`;
+  }
+
+  if (!body) throw new Error("body is required for comment action");
+  const { text, unresolved } = await resolveMentions(body);
+  const input: Record<string, unknown> = { text };
+  if (options.parentId !== undefined) input.parent_id = options.parentId;
+
+  const comment = (await api("POST", `/stories/${storyId}/comments`, input)) as Record<string, unknown> | null;
+
+  const truncated = body.length > 100 ? body.slice(0, 100) + "..." : body;
+  const target = options.parentId !== undefined ? `Replied to comment #${options.parentId} on` : "Added comment to";
+  const commentId = comment?.id ? ` (#${comment.id})` : "";
+  return `${target} sc-${storyId}${commentId}:\n> ${truncated}${unresolvedNote(unresolved)}`;
+}
+
+function unresolvedNote(unresolved: string[]): string {
+  return unresolved.length > 0 ? `\nNot mentioned (no matching member): ${unresolved.join(", ")}` : "";
+}
+
+// Story templates: built-in or local Markdown files with {{placeholders}}, or
+// Shortcut entity templates. {{name}} is required, {{name?}} may be left empty.
+const BUILTIN_TEMPLATES: Record<string, string> = {
+  bug: `---
+type: bug
+---
+## Steps to reproduce
+{{steps}}
+
+## Expected
+{{expected}}
+
+## Actual
+{{actual}}
+
+## Environment
+{{environment?}}`,
+};
+
+interface TemplateContents {
+  templateId?: string;
+  description?: string;
+  type?: string;
+  estimate?: number;
+  labels?: string[];
+}
+
+// Parse "key: value" front matter (type, estimate, labels) from a local template
+function parseLocalTemplate(text: string): TemplateContents {
+  const match = text.match(/^---\n([\s\S]*?)\n---\n?/);
+  const contents: TemplateContents = { description: match ? text.slice(match[0].length) : text };
+
+  for (const line of match ? match[1].split("\n") : []) {
+    const [key, ...rest] = line.split(":");
+    const value = rest.join(":").trim();
+    if (!value) continue;
+    if (key.trim() === "type") contents.type = value;
+    if (key.trim() === "estimate") contents.estimate = Number(value);
+    if (key.trim() === "labels") contents.labels = value.split(",").map((l) => l.trim()).filter(Boolean);
+  }
+
+  return contents;
+}
+
+async function loadTemplate(input: string): Promise<TemplateContents> {
+  const path = resolve(process.cwd(), input);
+  if (/[/\\]|\.md$/i.test(input) && existsSync(path)) {
+    return parseLocalTemplate(readFileSync(path, "utf8"));
+  }
+
+  const lower = input.trim().toLowerCase();
+  if (BUILTIN_TEMPLATES[lower]) return parseLocalTemplate(BUILTIN_TEMPLATES[lower]);
+
+  const templates = await getEntityTemplates();
+  const match =
+    templates.find((t) => String(t.name || "").toLowerCase() === lower) ||
+    templates.find((t) => String(t.name || "").toLowerCase().includes(lower));
+  if (match) {
+    const story = (match.story_contents as Record<string, unknown> | undefined) || {};
+    return {
+      templateId: match.id as string,
+      description: story.description as string | undefined,
+      type: story.story_type as string | undefined,
+      estimate: story.estimate as number | undefined,
+      labels: ((story.labels as Array<{ name: string }> | undefined) || []).map((l) => l.name),
+    };
+  }
+
+  const available = [...Object.keys(BUILTIN_TEMPLATES), ...templates.map((t) => t.name)].join(", ");
+  throw new Error(`Template "${input}" not found. Available: ${available}, or a path to a .md file`);
+}
+
+// Fill {{placeholders}}; returns the names of required placeholders without a value
+function fillTemplate(text: string, values: Record<string, string>): { text: string; missing: string[] } {
+  const missing: string[] = [];
+  const filled = text.replace(/\{\{\s*([\w-]+)(\?)?\s*\}\}/g, (_, key: string, optional?: string) => {
+    const value = values[key];
+    if (value !== undefined && value !== "") return value;
+    if (!optional && !missing.includes(key)) missing.push(key);
+    return optional ? "_Not provided_" : "";
+  });
+  return { text: filled, missing };
+}
+
+interface CreateOptions {
+  description?: string;
+  type?: string;
+  estimate?: number;
+  epic?: number;
+  iteration?: number;
+  state?: string;
+  workflow?: string;
+  owner?: string;
+  requester?: string;
+  team?: string;
+  deadline?: string;
+  fields?: Record<string, string | null>;
+  labels?: string[];
+  template?: string;
+  values?: Record<string, string>;
+}
+
+async function handleCreate(name: string, options: CreateOptions): Promise<string> {
+  const input: Record<string, unknown> = { name };
+
+  // Apply the template first; explicit arguments override its contents
+  if (options.template) {
+    const template = await loadTemplate(options.template);
+    const filled = fillTemplate(template.description || "", options.values || {});
+    if (filled.missing.length > 0) {
+      return `Template "${options.template}" needs: ${filled.missing.join(", ")}. Pass them in values, e.g. {"values": {"${filled.missing[0]}": "..."}}`;
+    }
+
+    if (template.templateId) input.story_template_id = template.templateId;
+    options = {
+      ...options,
+      description: options.description ?? (filled.text || undefined),
+      type: options.type ?? template.type,
+      estimate: options.estimate ?? template.estimate,
+      labels: [...(template.labels || []), ...(options.labels || [])],
+    };
+  }
+
+  // Stories land on the given (or default) team's board, in its workflow unless one is named
+  const teamName = options.team ?? defaultTeam();
+  const team = teamName ? await findTeam(teamName) : null;
+  if (team) input.group_id = team.id;
+
+  const teamWorkflowId = ((team?.workflow_ids as number[] | undefined) || [])[0];
+  const workflow = options.workflow
+    ? await resolveWorkflow(options.workflow)
+    : teamWorkflowId !== undefined
+      ? (await getWorkflows()).find((wf) => wf.id === teamWorkflowId) || null
+      : null;
+
+  // Get default workflow state if not provided
+  if (options.state) {
+    const state = await resolveWorkflowState(options.state, workflow?.id as number | undefined);
+    if ("error" in state) return state.error;
+    input.workflow_state_id = state.id;
+  } else {
+    // Use first "unstarted" state from the chosen (or default) workflow
+    const target = workflow || (await getWorkflows())[0];
+    if (target) {
+      const states = (target.states as Array<Record<string, unknown>> | undefined) || [];
+      const readyState = states.find((s) => (s.type as string) === "unstarted");
+      if (readyState) input.workflow_state_id = readyState.id;
+    }
+  }
+
+  if (options.description) input.description = options.description;
+  if (options.type) input.story_type = options.type;
+  if (options.estimate !== undefined) input.estimate = options.estimate;
+  if (options.epic) input.epic_id = options.epic;
+  if (options.iteration) input.iteration_id = options.iteration;
+
+  if (options.owner) {
+    const memberId = await resolveMember(options.owner);
+    if (memberId) input.owner_ids = [memberId];
+  }
+
+  if (options.requester) {
+    const memberId = await resolveMember(options.requester);
+    if (!memberId) return `Could not find member "${options.requester}"`;
+    input.requested_by_id = memberId;
+  }
+
+  if (options.deadline) input.deadline = toShortcutDate(options.deadline);
+
+  if (options.fields && Object.keys(options.fields).length > 0) {
+    input.custom_fields = mergeCustomFields(null, await resolveCustomFields(options.fields));
+  }
+
+  if (options.labels && options.labels.length > 0) {
+    input.labels = options.labels.map((labelName) => ({ name: labelName }));
+  }
+
+  const story = (await api("POST", "/stories", input)) as Record<string, unknown>;
+  return `Created sc-${story.id}: ${story.name}\n${story.app_url}`;
+}
+
+// Epic state, owner, date and objective resolution
+async function resolveEpicState(input: string): Promise<number> {
+  const states = await getEpicStates();
+  const lower = input.trim().toLowerCase();
+  const aliases: Record<string, string> = {
+    todo: "unstarted",
+    "to do": "unstarted",
+    unstarted: "unstarted",
+    started: "started",
+    "in progress": "started",
+    done: "done",
+    complete: "done",
+    completed: "done",
+  };
+
+  const match =
+    states.find((s) => String(s.name || "").toLowerCase() === lower) ||
+    states.find((s) => String(s.name || "").toLowerCase().includes(lower)) ||
+    states.find((s) => s.type === aliases[lower]);
+  if (match) return match.id as number;
+
+  throw new Error(`Epic state "${input}" not found. Valid states: ${states.map((s) => s.name).join(", ")}`);
+}
+
+async function resolveObjectives(inputs: string[]): Promise<number[]> {
+  const objectives = await getObjectives();
+
+  return inputs.map((input) => {
+    const lower = input.trim().toLowerCase();
+    const match =
+      objectives.find((o) => String(o.id) === lower) ||
+      objectives.find((o) => String(o.name || "").toLowerCase() === lower) ||
+      objectives.find((o) => String(o.name || "").toLowerCase().includes(lower));
+    if (match) return match.id as number;
+    const valid = objectives.map((o) => o.name).join(", ");
+    throw new Error(`Objective "${input}" not found. Valid objectives: ${valid || "none"}`);
+  });
+}
+
+interface EpicUpdates {
+  name?: string;
+  description?: string;
+  state?: string;
+  owner?: string | null;
+  deadline?: string | null;
+  startDate?: string | null;
+  objectives?: string[];
+}
+
+async function buildEpicInput(updates: EpicUpdates): Promise<Record<string, unknown>> {
+  const input: Record<string, unknown> = {};
+
+  if (updates.name) input.name = updates.name;
+  if (updates.description) input.description = updates.description;
+  if (updates.state) input.epic_state_id = await resolveEpicState(updates.state);
+  if (updates.deadline !== undefined) input.deadline = toShortcutDate(updates.deadline);
+  if (updates.startDate !== undefined) input.planned_start_date = toShortcutDate(updates.startDate);
+  if (updates.objectives) input.objective_ids = await resolveObjectives(updates.objectives);
+
+  if (updates.owner !== undefined) {
+    if (updates.owner === null) {
+      input.owner_ids = [];
+    } else {
+      const memberId = await resolveMember(updates.owner);
+      if (!memberId) throw new Error(`Could not find member "${updates.owner}"`);
+      input.owner_ids = [memberId];
+    }
+  }
+
+  return input;
+}
+
+// Accept YYYY-MM-DD or any Date-parsable string; null clears the date
+function toShortcutDate(input: string | null): string | null {
+  if (input === null) return null;
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid date: ${input}`);
+  return date.toISOString();
+}
+
+async function handleEpicCreate(name: string, updates: EpicUpdates): Promise<string> {
+  const input = await buildEpicInput({ ...updates, name });
+  const epic = (await api("POST", "/epics", input)) as Record<string, unknown>;
+  return `Created epic ${epic.id}: ${epic.name}\n${epic.app_url}`;
+}
+
+async function handleEpicUpdate(id: string, updates: EpicUpdates): Promise<string> {
+  const epicId = resolveId(id);
+  const input = await buildEpicInput(updates);
+
+  if (Object.keys(input).length === 0) {
+    return "No updates provided";
+  }
+
+  const epic = (await api("PUT", `/epics/${epicId}`, input)) as Record<string, unknown>;
+
+  const changes: string[] = [];
+  if (updates.name) changes.push("name updated");
+  if (updates.description) changes.push("description updated");
+  if (updates.state) changes.push(`state → ${await epicStateName(epic)}`);
+  if (updates.owner !== undefined) changes.push(`owner → ${updates.owner || "unassigned"}`);
+  if (updates.deadline !== undefined) changes.push(`target → ${updates.deadline || "none"}`);
+  if (updates.startDate !== undefined) changes.push(`start → ${updates.startDate || "none"}`);
+  if (updates.objectives) changes.push(`objectives → ${updates.objectives.join(", ") || "none"}`);
+
+  return `Updated epic ${epic.id}: ${changes.join(", ")}\n${epic.app_url}`;
+}
+
+async function epicStateName(epic: Record<string, unknown>): Promise<string> {
+  const states = await getEpicStates();
+  const state = states.find((s) => s.id === epic.epic_state_id);
+  return String(state?.name || epic.state || "?");
+}
+
+async function handleEpic(
+  id: string,
+  limit?: number,
+  cursor?: string,
+  format?: OutputFormat
+): Promise<string> {
+  const epicId = resolveId(id);
+  const epic = (await api("GET", `/epics/${epicId}`)) as Record<string, unknown>;
+
+  if (!epic) {
+    return `Epic ${epicId} not found`;
+  }
+
+  // Fetch stories in this epic
+  const page = cursor
+    ? await fetchCursorPage(cursor, limit)
+    : await fetchFilterPage({ epic_ids: [epicId] }, 0, clampLimit(limit));
+
+  const [names, objectives, stateName] = await Promise.all([
+    getNameLookup(),
+    getObjectives(),
+    epicStateName(epic),
+  ]);
+  const stats = (epic.stats as Record<string, number> | undefined) || {};
+  const owners = ((epic.owner_ids as string[] | undefined) || []).map((o) => ({ id: o, name: names.member(o) }));
+  const epicObjectives = ((epic.objective_ids as number[] | undefined) || []).map((o) => ({
+    id: o,
+    name: (objectives.find((obj) => obj.id === o)?.name as string | undefined) ?? null,
+  }));
+  const points = {
+    total: stats.num_points || 0,
+    done: stats.num_points_done || 0,
+    started: stats.num_points_started || 0,
+  };
+  const date = (value: unknown) => (value ? String(value).slice(0, 10) : null);
+
+  if (format === "json") {
+    return toJson({
+      id: epic.id,
+      name: epic.name ?? null,
+      state: stateName,
+      url: epic.app_url ?? null,
+      owners,
+      objectives: epicObjectives,
+      start_date: date(epic.planned_start_date),
+      deadline: date(epic.deadline),
+      points,
+      stats: { total: stats.num_stories_total || 0, done: stats.num_stories_done || 0 },
+      stories: await normalizeStories(page.stories),
+      total: page.total,
+      cursor: page.cursor,
+    });
+  }
+
+  const percent = points.total > 0 ? Math.round((points.done / points.total) * 100) : 0;
+  const lines = [
+    `**Epic ${epic.id}**: ${epic.name || "Untitled"}`,
+    `State: ${stateName} | Owners: ${owners.map((o) => o.name).join(", ") || "unassigned"}`,
+    `Start: ${date(epic.planned_start_date) || "?"} | Target: ${date(epic.deadline) || "?"}`,
+    `Progress: ${points.done}/${points.total} pts done (${percent}%), ${points.started} started | Stories: ${stats.num_stories_total || 0} (${stats.num_stories_done || 0} done)`,
+  ];
+  if (epicObjectives.length > 0) {
+    lines.push(`Objectives: ${epicObjectives.map((o) => (o.name ? `${o.name} (${o.id})` : o.id)).join(", ")}`);
+  }
+  lines.push(`Link: ${epic.app_url || "N/A"}`);
+  let result = lines.join("\n");
+
+  if (page.stories.length > 0) {
+    result += "\n\n## Stories\n" + (await formatStoryPage(page, { action: "epic", id }));
+  }
+
+  return result;
+}
+
+// Resolve "current"/"next" or an id/URL to an iteration
+async function resolveIteration(input: string): Promise<Record<string, unknown> | null> {
+  const lower = input.trim().toLowerCase();
+  if (lower !== "current" && lower !== "next") {
+    return (await api("GET", `/iterations/${resolveId(input)}`)) as Record<string, unknown>;
+  }
+
+  const iterations = await getIterations();
+  const today = new Date().toISOString().slice(0, 10);
+  const byStart = [...(iterations || [])].sort((a, b) =>
+    String(a.start_date || "").localeCompare(String(b.start_date || ""))
+  );
+
+  if (lower === "current") {
+    return (
+      byStart.find((it) => String(it.start_date) <= today && today <= String(it.end_date)) ||
+      byStart.find((it) => it.status === "started") ||
+      null
+    );
+  }
+
+  return byStart.find((it) => String(it.start_date) > today) || null;
+}
+
+async function handleIteration(id: string, format?: OutputFormat): Promise<string> {
+  const iteration = await resolveIteration(id);
+
+  if (!iteration) {
+    return `No ${id} iteration found`;
+  }
+
+  const response = await api("GET", `/iterations/${iteration.id}/stories`);
+  const stories = normalizeSearchResponse(response);
+
+  // Group by workflow state type (unstarted, started, done)
+  const states = await getStateLookup();
+  const typeOf = (story: Record<string, unknown>): string =>
+    states.get(story.workflow_state_id as number)?.type ||
+    (story.completed ? "done" : story.started ? "started" : "unstarted");
+
+  const names = await getNameLookup();
+
+  let planned = 0;
+  let completed = 0;
+  const byOwner = new Map<string, { planned: number; completed: number }>();
+
+  for (const story of stories) {
+    const points = (story.estimate as number | null | undefined) ?? 0;
+    const done = typeOf(story) === "done";
+    planned += points;
+    if (done) completed += points;
+
+    const owners = (story.owner_ids as string[] | undefined) || [];
+    for (const owner of owners.length > 0 ? owners.map((o) => names.member(o)) : ["Unassigned"]) {
+      const totals = byOwner.get(owner) || { planned: 0, completed: 0 };
+      totals.planned += points;
+      if (done) totals.completed += points;
+      byOwner.set(owner, totals);
+    }
+  }
+
+  const percent = planned > 0 ? Math.round((completed / planned) * 100) : 0;
+  const doneCount = stories.filter((s) => typeOf(s) === "done").length;
+
+  if (format === "json") {
+    return toJson({
+      id: iteration.id,
+      name: iteration.name ?? null,
+      start_date: iteration.start_date ?? null,
+      end_date: iteration.end_date ?? null,
+      status: iteration.status ?? null,
+      url: iteration.app_url ?? null,
+      points: { planned, completed },
+      owners: [...byOwner.entries()].map(([name, t]) => ({ name, ...t })),
+      stories: stories.map((story) => normalizeStory(story, names, states)),
+    });
+  }
+
+  let result = `**Iteration ${iteration.id}**: ${iteration.name || "Untitled"}
+Dates: ${iteration.start_date || "?"} → ${iteration.end_date || "?"} | Status: ${iteration.status || "?"}
+Points: ${completed}/${planned} completed (${percent}%) | Stories: ${stories.length} (${doneCount} done)
+Link: ${iteration.app_url || "N/A"}`;
+
+  if (byOwner.size > 0) {
+    result += "\n\n## By Owner\n";
+    result += [...byOwner.entries()]
+      .sort((a, b) => b[1].planned - a[1].planned)
+      .map(([owner, t]) => `- ${owner}: ${t.completed}/${t.planned} pts`)
+      .join("\n");
+  }
+
+  const groups: Array<[string, string]> = [
+    ["started", "In Progress"],
+    ["unstarted", "Not Started"],
+    ["done", "Done"],
+  ];
+  for (const [type, heading] of groups) {
+    const group = stories.filter((s) => typeOf(s) === type);
+    if (group.length > 0) {
+      result += `\n\n## ${heading} (${group.length})\n` + formatStoryList(group);
+    }
+  }
+
+  return result;
+}
+
+// Team boards: without an id, every team; with one, its members and in-flight stories by state
+async function handleTeam(id?: string, format?: OutputFormat): Promise<string> {
+  if (!id) {
+    const groups = (await getGroups()).filter((g) => !g.archived);
+    if (format === "json") {
+      return toJson(
+        groups.map((g) => ({
+          id: g.id,
+          name: g.name ?? null,
+          mention_name: g.mention_name ?? null,
+          members: ((g.member_ids as string[] | undefined) || []).length,
+        }))
+      );
+    }
+    if (groups.length === 0) return "No teams found.";
+
+    const fallback = defaultTeam()?.replace(/^@/, "").toLowerCase();
+    return groups
+      .map((g) => {
+        const members = ((g.member_ids as string[] | undefined) || []).length;
+        const started = typeof g.num_stories_started === "number" ? `, ${g.num_stories_started} in progress` : "";
+        const isDefault =
+          fallback && [g.name, g.mention_name].some((v) => String(v || "").toLowerCase() === fallback) ? " (default)" : "";
+        return `- **${g.name}** @${g.mention_name || "?"}${isDefault}: ${members} member${members === 1 ? "" : "s"}${started}`;
+      })
+      .join("\n");
+  }
+
+  const team = await findTeam(id);
+  const [names, states, workflows] = await Promise.all([getNameLookup(), getStateLookup(), getWorkflows()]);
+  const response = await api("POST", "/stories/search", { group_ids: [team.id], archived: false });
+  const stories = normalizeSearchResponse(response).filter(
+    (s) => s != null && states.get(s.workflow_state_id as number)?.type === "started"
+  );
+
+  const memberIds = (team.member_ids as string[] | undefined) || [];
+  const workflowIds = (team.workflow_ids as number[] | undefined) || [];
+  const workflowNames = workflows.filter((wf) => workflowIds.includes(wf.id as number)).map((wf) => wf.name);
+
+  if (format === "json") {
+    return toJson({
+      id: team.id,
+      name: team.name ?? null,
+      mention_name: team.mention_name ?? null,
+      members: memberIds.map((memberId) => ({ id: memberId, name: names.member(memberId) })),
+      workflows: workflowNames,
+      stories: stories.map((story) => normalizeStory(story, names, states)),
+    });
+  }
+
+  let result = `**Team**: ${team.name} (@${team.mention_name || "?"})
+Workflows: ${workflowNames.join(", ") || "Any"}
+Link: ${team.app_url || "N/A"}`;
+
+  result += `\n\n## Members (${memberIds.length})\n`;
+  result += memberIds.length > 0 ? memberIds.map((memberId) => `- ${names.member(memberId)}`).join("\n") : "None";
+
+  if (stories.length === 0) return result + "\n\nNo stories in progress.";
+
+  // Group in workflow order so the board reads left to right
+  for (const wf of workflows) {
+    for (const state of (wf.states as Array<Record<string, unknown>> | undefined) || []) {
+      const group = stories.filter((s) => s.workflow_state_id === state.id);
+      if (group.length > 0) {
+        const workflowSuffix = workflowIds.length > 1 ? ` (${wf.name})` : "";
+        result += `\n\n## ${state.name}${workflowSuffix} (${group.length})\n` + formatStoryList(group);
+      }
+    }
+  }
+
+  return result;
+}
+
+// Find a task by 1-based index or description match
+function findTask(tasks: Array<Record<string, unknown>>, selector: string): Record<string, unknown> {
+  const trimmed = selector.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const task = tasks[parseInt(trimmed, 10) - 1];
+    if (task) return task;
+    throw new Error(`No task #${trimmed}. Story has ${tasks.length} task${tasks.length === 1 ? "" : "s"}.`);
+  }
+
+  const lower = trimmed.toLowerCase();
+  const exact = tasks.find((t) => String(t.description || "").toLowerCase() === lower);
+  if (exact) return exact;
+
+  const partial = tasks.filter((t) => String(t.description || "").toLowerCase().includes(lower));
+  if (partial.length === 1) return partial[0];
+  if (partial.length > 1) {
+    const candidates = partial.map((t) => `"${t.description}"`).join(", ");
+    throw new Error(`"${selector}" matches several tasks: ${candidates}. Use the task number.`);
+  }
+
+  throw new Error(`No task matching "${selector}"`);
+}
+
+async function handleTask(
+  id: string,
+  options: { add?: string; task?: string; complete?: boolean; remove?: boolean }
+): Promise<string> {
+  const storyId = resolveId(id);
+
+  if (options.add) {
+    await api("POST", `/stories/${storyId}/tasks`, { description: options.add });
+    return `Added task to sc-${storyId}: ${options.add}`;
+  }
+
+  const story = (await api("GET", `/stories/${storyId}`)) as Record<string, unknown>;
+  const tasks = ((story.tasks as Array<Record<string, unknown>> | undefined) || []).filter(
+    (t): t is Record<string, unknown> => t != null
+  );
+
+  if (!options.task) {
+    if (tasks.length === 0) return `sc-${storyId} has no tasks`;
+    return `Tasks for sc-${storyId}:\n${formatTaskList(tasks).join("\n")}`;
+  }
+
+  const task = findTask(tasks, options.task);
+
+  if (options.remove) {
+    await api("DELETE", `/stories/${storyId}/tasks/${task.id}`);
+    return `Deleted task from sc-${storyId}: ${task.description}`;
+  }
+
+  const complete = options.complete ?? !task.complete;
+  await api("PUT", `/stories/${storyId}/tasks/${task.id}`, { complete });
+  return `sc-${storyId}: [${complete ? "x" : " "}] ${task.description}`;
+}
+
+// Attachments: upload a local file to a story through the multipart /files endpoint
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+  ".log": "text/plain",
+  ".json": "application/json",
+  ".csv": "text/csv",
+  ".zip": "application/zip",
+};
+
+async function handleAttach(id: string, filePath: string): Promise<string> {
+  const storyId = resolveId(id);
+  const fullPath = resolve(process.cwd(), filePath);
+
+  let size: number;
+  try {
+    const stat = statSync(fullPath);
+    if (!stat.isFile()) throw new Error(`${fullPath} is not a file`);
+    size = stat.size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") throw new Error(`File not found: ${fullPath}`);
+    throw error;
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    const limit = formatSize(MAX_UPLOAD_BYTES);
+    throw new Error(`${basename(fullPath)} is ${formatSize(size)}; attachments are limited to ${limit}`);
+  }
+
+  const name = basename(fullPath);
+  const type = CONTENT_TYPES[extname(name).toLowerCase()] || "application/octet-stream";
+  const form = new FormData();
+  form.append("story_id", String(storyId));
+  form.append("file0", new Blob([readFileSync(fullPath)], { type }), name);
+
+  const uploaded = (await apiUpload("/files", form)) as Array<Record<string, unknown>>;
+  const file = uploaded?.[0] || {};
+  return `Attached ${file.name || name} (${formatSize(size)}) to sc-${storyId}\n${file.url || ""}`.trimEnd();
+}
+
+// Git integration: story ↔ branch names in Shortcut's mention/sc-123/slug convention
+const execFileAsync = promisify(execFile);
+
+function slugify(text: string, maxLength = 50): string {
+  const slug = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  if (slug.length <= maxLength) return slug;
+  const cut = slug.slice(0, maxLength);
+  return cut.includes("-") ? cut.slice(0, cut.lastIndexOf("-")) : cut;
+}
+
+async function currentGitBranch(): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", ["rev-parse", "--abbrev-ref", "HEAD"], {
+      cwd: process.cwd(),
+      timeout: 5000,
+    });
+    return stdout.trim();
+  } catch {
+    throw new Error(`Not a git repository (or git is unavailable) in ${process.cwd()}`);
+  }
+}
+
+async function handleBranch(id: string): Promise<string> {
+  if (id.trim().toLowerCase() === "current") {
+    const branch = await currentGitBranch();
+    if (!/\bsc-\d+/i.test(branch)) {
+      return `Branch "${branch}" does not reference a story (expected sc-<id> in the name)`;
+    }
+    return `Branch: ${branch}\n\n${await handleGet(branch)}`;
+  }
+
+  const storyId = resolveId(id);
+  const [story, member] = await Promise.all([
+    api("GET", `/stories/${storyId}`) as Promise<Record<string, unknown>>,
+    getCurrentMember(),
+  ]);
+  const profile = member.profile as Record<string, unknown> | undefined;
+  const user = slugify(String(profile?.mention_name || "me"));
+  const branch = `${user}/sc-${storyId}/${slugify(String(story.name || "story"))}`.replace(/\/$/, "");
+
+  return `${branch}\n\ngit checkout -b ${branch}`;
+}
+
+// Story history: a timeline of changes plus time spent in each workflow state
+const HISTORY_ENTITIES: Record<string, string> = {
+  "story-comment": "comment",
+  "story-task": "task",
+  "story-link": "link",
+  "pull-request": "pull request",
+  branch: "branch",
+  commit: "commit",
+  label: "label",
+};
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+async function handleHistory(id: string, limit?: number): Promise<string> {
+  const storyId = resolveId(id);
+  const history = ((await api("GET", `/stories/${storyId}/history`)) as Array<Record<string, unknown>>) || [];
+  const [names, states] = await Promise.all([getNameLookup(), getStateLookup()]);
+
+  if (history.length === 0) {
+    return `No history for sc-${storyId}`;
+  }
+
+  const entries = [...history].sort((a, b) => String(a.changed_at).localeCompare(String(b.changed_at)));
+
+  // Names for ids mentioned in changes come from the entry's references, then the caches
+  const describe = (key: string, value: unknown, refs: Array<Record<string, unknown>>): string => {
+    if (value === null || value === undefined || value === "") return "none";
+    const ref = refs.find((r) => r.id === value);
+    if (key === "workflow_state_id") return states.get(value as number)?.name || String(ref?.name ?? value);
+    if (key === "epic_id") return names.epic(value) || String(ref?.name ?? value);
+    if (key === "iteration_id") return names.iteration(value) || String(ref?.name ?? value);
+    if (key.endsWith("_ids") || key.endsWith("_id")) {
+      return ref?.name ? String(ref.name) : typeof value === "string" ? names.member(value) : String(value);
+    }
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 60)}...` : text;
+  };
+
+  const transitions: Array<{ stateId: number; at: number }> = [];
+  const lines: string[] = [];
+
+  for (const entry of entries) {
+    const refs = (entry.references as Array<Record<string, unknown>> | undefined) || [];
+    const changedAt = String(entry.changed_at || "");
+    const parts: string[] = [];
+
+    for (const action of (entry.actions as Array<Record<string, unknown>> | undefined) || []) {
+      const isStory = action.entity_type === "story" && action.id === storyId;
+
+      if (!isStory) {
+        const entity = HISTORY_ENTITIES[action.entity_type as string] || String(action.entity_type);
+        const verb = { create: "added", update: "updated", delete: "deleted" }[action.action as string] || action.action;
+        parts.push(`${verb} ${entity}${action.name || action.description ? ` "${action.name || action.description}"` : ""}`);
+        continue;
+      }
+
+      if (action.action === "create") {
+        parts.push("created story");
+        if (action.workflow_state_id) {
+          transitions.push({ stateId: action.workflow_state_id as number, at: Date.parse(changedAt) });
+        }
+        continue;
+      }
+
+      const changes = (action.changes as Record<string, Record<string, unknown>> | undefined) || {};
+      for (const [key, change] of Object.entries(changes)) {
+        const field = key.replace(/_ids?$/, "").replace(/_/g, " ");
+        if ("adds" in change || "removes" in change) {
+          const adds = ((change.adds as unknown[]) || []).map((v) => `+${describe(key, v, refs)}`);
+          const removes = ((change.removes as unknown[]) || []).map((v) => `-${describe(key, v, refs)}`);
+          parts.push(`${field} ${[...adds, ...removes].join(" ")}`);
+        } else {
+          parts.push(`${field} ${describe(key, change.old, refs)} → ${describe(key, change.new, refs)}`);
+        }
+        if (key === "workflow_state_id" && change.new) {
+          transitions.push({ stateId: change.new as number, at: Date.parse(changedAt) });
+        }
+      }
+    }
+
+    if (parts.length > 0) {
+      const who = entry.member_id ? names.member(entry.member_id) : "Shortcut";
+      lines.push(`- ${changedAt.slice(0, 16).replace("T", " ")} **${who}**: ${parts.join("; ")}`);
+    }
+  }
+
+  const shown = clampLimit(limit);
+  let result = `## History of sc-${storyId}\n`;
+  if (lines.length > shown) result += `... ${lines.length - shown} earlier changes omitted\n`;
+  result += lines.slice(-shown).join("\n");
+
+  // Time in each state, with the current state running until now
+  if (transitions.length > 0) {
+    const totals = new Map<number, number>();
+    transitions.forEach((t, i) => {
+      const end = i + 1 < transitions.length ? transitions[i + 1].at : Date.now();
+      totals.set(t.stateId, (totals.get(t.stateId) || 0) + Math.max(0, end - t.at));
+    });
+    const current = transitions[transitions.length - 1].stateId;
+    result += "\n\n## Time in State\n";
+    result += [...totals.entries()]
+      .map(([stateId, ms]) => {
+        const name = states.get(stateId)?.name || String(stateId);
+        return `- ${name}: ${formatDuration(ms)}${stateId === current ? " (current)" : ""}`;
+      })
+      .join("\n");
+  }
+
+  return result;
+}
+
+// Status reports: completed, in-progress and blocked stories plus recent comments
+// for a member, team or epic over a time window
+const REPORT_COMMENT_STORIES = 20;
+const REPORT_COMMENTS = 10;
+
+interface ReportOptions {
+  owner?: string;
+  team?: string;
+  epic?: number;
+  since?: string;
+  groupBy?: "state" | "epic";
+}
+
+// "24h", "3d", "2w" or a date; defaults to the last day
+function parseSince(input?: string): Date {
+  if (!input) return new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+  const relative = input.trim().match(/^(\d+)\s*([hdw])$/i);
+  if (relative) {
+    const unit = { h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 }[
+      relative[2].toLowerCase() as "h" | "d" | "w"
+    ];
+    return new Date(Date.now() - Number(relative[1]) * unit);
+  }
+
+  const date = new Date(input);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid since: ${input}. Use a date or e.g. "24h", "3d", "2w"`);
+  return date;
+}
+
+async function handleReport(options: ReportOptions, format?: OutputFormat): Promise<string> {
+  const since = parseSince(options.since);
+  const [names, states] = await Promise.all([getNameLookup(), getStateLookup()]);
+  const body: Record<string, unknown> = { archived: false };
+  let scope: string;
+
+  if (options.epic) {
+    body.epic_ids = [options.epic];
+    scope = `Epic ${names.epic(options.epic) || options.epic}`;
+  } else if (options.team) {
+    const team = await findTeam(options.team);
+    body.group_ids = [team.id];
+    scope = `Team ${team.name}`;
+  } else {
+    const memberId = await resolveMember(options.owner || "me");
+    if (!memberId) throw new Error(`Could not find member "${options.owner}"`);
+    body.owner_ids = [memberId];
+    scope = names.member(memberId);
+  }
+
+  // Two bounded searches instead of the scope's whole history: stories updated in the
+  // window (completed work, comments) and stories in progress now, whenever last touched
+  const [updated, started] = await Promise.all([
+    api("POST", "/stories/search", { ...body, updated_at_start: since.toISOString() }),
+    api("POST", "/stories/search", { ...body, workflow_state_types: ["started"] }),
+  ]);
+  const byId = new Map<unknown, Record<string, unknown>>();
+  for (const story of [...normalizeSearchResponse(updated), ...normalizeSearchResponse(started)]) {
+    if (story != null) byId.set(story.id, story);
+  }
+  const stories = [...byId.values()];
+  const typeOf = (story: Record<string, unknown>): string =>
+    states.get(story.workflow_state_id as number)?.type ||
+    (story.completed ? "done" : story.started ? "started" : "unstarted");
+  const after = (value: unknown) => typeof value === "string" && Date.parse(value) >= since.getTime();
+
+  const completed = stories.filter((s) => typeOf(s) === "done" && after(s.completed_at));
+  const inProgress = stories.filter((s) => typeOf(s) === "started" && !s.blocked);
+  const blocked = stories.filter((s) => s.blocked === true && typeOf(s) !== "done");
+
+  // Search results carry no comments; fetch the most recently updated stories for theirs
+  const recent = stories
+    .filter((s) => after(s.updated_at) || after(s.completed_at))
+    .sort((a, b) => String(b.updated_at || "").localeCompare(String(a.updated_at || "")))
+    .slice(0, REPORT_COMMENT_STORIES);
+  const detailed = await mapWithConcurrency(recent, BATCH_CONCURRENCY, async (s) => {
+    try {
+      return (await api("GET", `/stories/${s.id}`)) as Record<string, unknown>;
+    } catch {
+      return null;
+    }
+  });
+  const comments = detailed
+    .flatMap((story) =>
+      ((story?.comments as Array<Record<string, unknown>> | undefined) || [])
+        .filter((c) => c != null && !c.deleted && after(c.created_at))
+        .map((c) => ({ story: story!, comment: c }))
+    )
+    .sort((a, b) => String(b.comment.created_at).localeCompare(String(a.comment.created_at)))
+    .slice(0, REPORT_COMMENTS);
+
+  const sinceLabel = since.toISOString().slice(0, 16).replace("T", " ");
+
+  if (format === "json") {
+    return toJson({
+      scope,
+      since: since.toISOString(),
+      completed: completed.map((s) => normalizeStory(s, names, states)),
+      in_progress: inProgress.map((s) => normalizeStory(s, names, states)),
+      blocked: blocked.map((s) => normalizeStory(s, names, states)),
+      comments: comments.map(({ story, comment }) => ({
+        story_id: story.id,
+        author: comment.author_id ? names.member(comment.author_id) : null,
+        text: commentText(comment, names),
+        created_at: comment.created_at ?? null,
+      })),
+    });
+  }
+
+  // Sub-group a section by workflow state or epic
+  const grouped = (list: Array<Record<string, unknown>>): string => {
+    if (list.length === 0) return "None";
+    const groups = new Map<string, Array<Record<string, unknown>>>();
+    for (const story of list) {
+      const key =
+        options.groupBy === "epic"
+          ? story.epic_id
+            ? names.epic(story.epic_id) || `Epic ${story.epic_id}`
+            : "No epic"
+          : states.get(story.workflow_state_id as number)?.name || "Unknown state";
+      groups.set(key, [...(groups.get(key) || []), story]);
+    }
+    return [...groups.entries()].map(([key, group]) => `### ${key}\n${formatStoryList(group)}`).join("\n\n");
+  };
+
+  const sections = [
+    `# Report: ${scope}, since ${sinceLabel} UTC`,
+    `Completed: ${completed.length} | In progress: ${inProgress.length} | Blocked: ${blocked.length}`,
+    `## Completed\n${grouped(completed)}`,
+    `## In Progress\n${grouped(inProgress)}`,
+    `## Blocked\n${blocked.length > 0 ? formatStoryList(blocked) : "None"}`,
+  ];
+
+  if (comments.length > 0) {
+    const lines = comments.map(({ story, comment }) => {
+      const text = commentText(comment, names).replace(/\s+/g, " ");
+      const short = text.length > 160 ? `${text.slice(0, 160)}…` : text;
+      const author = comment.author_id ? names.member(comment.author_id) : "Unknown";
+      return `- sc-${story.id} **${author}**: ${short}`;
+    });
+    sections.push(`## Recent Comments\n${lines.join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+// Batch operations
+const BATCH_MAX = 100;
+const BATCH_CONCURRENCY = 4;
+
+// Run fn over items with at most `limit` calls in flight, preserving order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Collect story ids matching a search query, up to BATCH_MAX
+async function collectStoryIds(query?: string | Record<string, unknown>): Promise<number[]> {
+  let stories: Array<Record<string, unknown>>;
+
+  if (typeof query === "string") {
+    stories = [];
+    const params = new URLSearchParams({ query, page_size: String(TEXT_PAGE_SIZE), detail: "slim" });
+    let page = await fetchTextPage(`/search/stories?${params}`);
+    stories.push(...page.stories);
+    while (page.cursor && stories.length <= BATCH_MAX) {
+      page = await fetchCursorPage(page.cursor);
+      stories.push(...page.stories);
+    }
+  } else {
+    const { body, match } = await buildFilterParams(query);
+    stories = (await fetchFilterPage(body, 0, BATCH_MAX + 1, match)).stories;
+  }
+
+  if (stories.length > BATCH_MAX) {
+    throw new Error(`Query matched more than ${BATCH_MAX} stories. Narrow the query or pass ids.`);
+  }
+
+  return stories.map((s) => s.id as number);
+}
+
+async function handleBatch(
+  target: { ids?: string[]; query?: string | Record<string, unknown> },
+  updates: StoryUpdates & { comment?: string },
+  dryRun = false
+): Promise<string> {
+  const storyIds = target.ids ? target.ids.map(resolveId) : await collectStoryIds(target.query);
+
+  if (storyIds.length === 0) {
+    return "No stories matched.";
+  }
+  if (storyIds.length > BATCH_MAX) {
+    return `Batch is limited to ${BATCH_MAX} stories (got ${storyIds.length}).`;
+  }
+
+  // States resolve per story, within each story's workflow
+  const built = await buildStoryInput({ ...updates, state: undefined });
+  if ("error" in built) {
+    return built.error;
+  }
+
+  const toAdd = await resolveLabels(updates.addLabels || []);
+  if ("error" in toAdd) return toAdd.error;
+  const toRemove = await resolveLabels(updates.removeLabels || []);
+  if ("error" in toRemove) return toRemove.error;
+
+  const { input } = built;
+  const added = toAdd.labels;
+  const removed = toRemove.labels;
+  const hasLabels = added.length > 0 || removed.length > 0;
+  const writesStory = Object.keys(input).length > 0 || Boolean(updates.state) || hasLabels;
+  if (!writesStory && !updates.comment) {
+    return "No updates provided";
+  }
+
+  // Fail the whole batch up front when the policy blocks a call it would make
+  if (!dryRun) {
+    const confirm = callContext.getStore()?.confirm ?? false;
+    if (writesStory) checkPolicy("PUT", `/stories/${storyIds[0]}`, undefined, confirm);
+    if (updates.comment) checkPolicy("POST", `/stories/${storyIds[0]}/comments`, undefined, confirm);
+  }
+
+  // Target state for one story, resolved in its own workflow
+  const targetState = async (story: Record<string, unknown>): Promise<number> => {
+    const state = await resolveWorkflowState(updates.state!, story.workflow_id as number | undefined);
+    if ("error" in state) throw new Error(state.error);
+    return state.id;
+  };
+
+  const changes: string[] = [];
+  if (updates.state) changes.push(`state → ${updates.state}`);
+  if (updates.estimate !== undefined) changes.push(`estimate → ${updates.estimate}`);
+  if (updates.owner !== undefined) changes.push(`owner → ${updates.owner || "unassigned"}`);
+  if (updates.iteration !== undefined) changes.push(`iteration → ${updates.iteration ?? "none"}`);
+  if (updates.type) changes.push(`type → ${updates.type}`);
+  if (added.length > 0) changes.push(`labels + ${added.join(", ")}`);
+  if (removed.length > 0) changes.push(`labels − ${removed.join(", ")}`);
+  if (updates.comment) changes.push("comment");
+  const summary = changes.join(", ");
+
+  if (dryRun) {
+    const rows = await mapWithConcurrency(storyIds, BATCH_CONCURRENCY, async (storyId) => {
+      try {
+        const story = (await api("GET", `/stories/${storyId}`)) as Record<string, unknown>;
+        let stateName = await getStateName(story.workflow_state_id as number);
+        if (updates.state) stateName += ` → ${await getStateName(await targetState(story))}`;
+        return `| sc-${storyId} | ${story.name || "Untitled"} | ${stateName} | would apply |`;
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return `| sc-${storyId} | ? | ? | failed: ${msg} |`;
+      }
+    });
+    return `Dry run: ${summary} on ${storyIds.length} stories\n\n| Story | Name | State | Result |\n|---|---|---|---|\n${rows.join("\n")}`;
+  }
+
+  // Mentions resolve once for every story's comment
+  const comment = updates.comment ? await resolveMentions(updates.comment) : null;
+
+  const results = await mapWithConcurrency(storyIds, BATCH_CONCURRENCY, async (storyId) => {
+    let updated = false;
+    try {
+      const payload = { ...input };
+      if (updates.state || hasLabels) {
+        const story = (await api("GET", `/stories/${storyId}`)) as Record<string, unknown>;
+        if (updates.state) payload.workflow_state_id = await targetState(story);
+        if (hasLabels) payload.labels = mergeLabels(story, added, removed);
+      }
+      if (Object.keys(payload).length > 0) {
+        await api("PUT", `/stories/${storyId}`, payload);
+        updated = true;
+      }
+      if (comment) {
+        await api("POST", `/stories/${storyId}/comments`, { text: comment.text });
+      }
+      return { storyId, result: "ok", message: updated || !comment ? "updated" : "commented" };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      // The story was already changed when only its comment failed
+      if (updated) return { storyId, result: "partial", message: `updated; comment failed: ${msg}` };
+      return { storyId, result: "failed", message: msg };
+    }
+  });
+
+  const succeeded = results.filter((r) => r.result === "ok").length;
+  const rows = results.map((r) => `| sc-${r.storyId} | ${r.result} | ${r.message} |`);
+  const note = unresolvedNote(comment?.unresolved || []);
+
+  return `Batch: ${summary} — ${succeeded}/${results.length} succeeded${note}\n\n| Story | Result | Detail |\n|---|---|---|\n${rows.join("\n")}`;
+}
+
+async function handleRefresh(resource?: string): Promise<string> {
+  const keys = resource ? [resource.trim().toLowerCase()] : Object.keys(CACHE_RESOURCES);
+  const unknown = keys.filter((k) => !(k in CACHE_RESOURCES));
+  if (unknown.length > 0) {
+    return `Unknown cache "${resource}". Valid: ${Object.keys(CACHE_RESOURCES).join(", ")}`;
+  }
+
+  // Refetch before replacing anything, so a failed refresh keeps the last-known copy
+  const results = await Promise.allSettled(keys.map((key) => fetchResource(key)));
+  const refreshed = keys.filter((_, i) => results[i].status === "fulfilled");
+  const failed = keys.flatMap((key, i) => {
+    const result = results[i];
+    if (result.status === "fulfilled") return [];
+    const msg = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    return [`${key} (${msg})`];
+  });
+
+  if (failed.length === 0) return `Refreshed cache: ${refreshed.join(", ")}`;
+  const kept = `Kept cached copies of: ${failed.join("; ")}`;
+  if (refreshed.length === 0) throw new Error(`Refresh failed. ${kept}`);
+  return `Refreshed cache: ${refreshed.join(", ")}\n${kept}`;
+}
+
+async function handleApi(
+  method: string,
+  path: string,
+  body?: Record<string, unknown>
+): Promise<string> {
+  // Validate path
+  if (!path.startsWith("/")) {
+    throw new Error("Path must start with /");
+  }
+
+  const result = await api(method.toUpperCase(), path, body);
+  return JSON.stringify(result, null, 2);
+}
+
+function handleHelp(): string {
+  return `# Shortcut MCP
+
+## Actions
+
+**search** - Find stories
+  {"action": "search"}                              → your active stories
+  {"action": "search", "query": "auth bug"}         → text search
+  {"action": "search", "query": {"state": "In Progress", "owner": "me"}}
+  {"action": "search", "query": {"state": ["Ready", "In Review"], "labels": ["backend"], "team": "Platform"}}
+  {"action": "search", "query": {"unowned": true, "estimate": {"min": 3}, "created_after": "2026-01-01"}}
+  {"action": "search", "query": {"team": "Platform"}, "fields": {"Priority": "High"}}  → by custom field
+  unowned, estimate ranges and fields need another filter (owner, state, team, labels, dates, ...)
+  {"action": "search", "query": "auth", "limit": 10}  → first 10 results
+  {"action": "search", "cursor": "..."}             → next page (cursor from previous result)
+
+**get** - Story details (accepts 704, sc-704, or URLs)
+  {"action": "get", "id": "704"}
+
+**update** - Change state, estimate, owner
+  {"action": "update", "id": "704", "state": "Done"}
+  {"action": "update", "id": "704", "estimate": 3}
+  {"action": "update", "id": "704", "owner": "me"}
+  {"action": "update", "id": "704", "owner": null}  → unassign
+  {"action": "update", "id": "704", "iteration": 142}
+  {"action": "update", "id": "704", "team": "Mobile"}  → move to another team (null clears)
+  {"action": "update", "id": "704", "fields": {"Priority": "High", "Severity": null}}  → custom fields (null clears)
+  {"action": "update", "id": "704", "deadline": "2026-11-30", "requester": "grace"}
+  {"action": "update", "id": "704", "add_links": ["https://sentry.io/issues/123"], "remove_links": ["https://old.example.com"]}
+  {"action": "update", "id": "704", "add_labels": ["needs-qa"], "remove_labels": ["blocked"]}
+
+**comment** - Add, reply to, edit or delete comments; @name mentions notify members
+  {"action": "comment", "id": "704", "body": "Fixed in abc123, @grace can you verify?"}
+  {"action": "comment", "id": "704", "parent_id": 9001, "body": "Good catch"}  → reply in thread
+  {"action": "comment", "id": "704", "comment_id": 9002, "body": "Updated text"}  → edit your comment
+  {"action": "comment", "id": "704", "comment_id": 9002, "delete": true, "confirm": true}
+  {"action": "comment", "id": "704", "comment_id": 9001, "reaction": "+1"}
+  Comment ids (#9001) are shown in get
+
+**create** - Create new story
+  {"action": "create", "name": "Bug title"}
+  {"action": "create", "name": "Bug", "type": "bug", "estimate": 2, "epic": 308}
+  {"action": "create", "name": "Mockups", "workflow": "Design", "state": "Ready"}
+  {"action": "create", "name": "Crash on iOS", "team": "Mobile"}  → team's board and workflow
+  {"action": "create", "name": "Checkout 500s", "fields": {"Priority": "Highest"}, "deadline": "2026-11-30"}
+  {"action": "create", "name": "Crash on save", "template": "bug",
+   "values": {"steps": "1. Open 2. Save", "expected": "Saved", "actual": "Crash", "environment": "macOS"}}
+  template: "bug" (built-in), a Shortcut template name, or a .md file path with {{field}} / {{optional?}}
+
+**epic** - Get epic with its stories
+  {"action": "epic", "id": "308"}
+  {"action": "epic", "id": "308", "limit": 50}
+  Shows state, owners, start/target dates, objectives and points progress.
+
+**link** / **unlink** - Story relationships (verb: blocks, blocked by, duplicates, relates to)
+  {"action": "link", "id": "704", "target": "705", "verb": "blocks"}
+  {"action": "link", "id": "704", "target": "702", "verb": "blocked by"}
+  {"action": "unlink", "id": "704", "target": "705", "confirm": true}
+
+**task** - Story checklist: list, add, toggle or delete (select by number or text)
+  {"action": "task", "id": "704"}                               → list tasks
+  {"action": "task", "id": "704", "body": "Write tests"}        → add
+  {"action": "task", "id": "704", "task": "2"}                  → toggle complete
+  {"action": "task", "id": "704", "task": "tests", "complete": true}
+  {"action": "task", "id": "704", "task": "2", "delete": true, "confirm": true}
+
+**branch** - Git branch names for stories
+  {"action": "branch", "id": "704"}                 → ada/sc-704/fix-login-redirect
+  {"action": "branch", "id": "current"}             → story for the checked-out branch
+
+**attach** - Upload a local file (log, screenshot) to a story; get lists attachments and links
+  {"action": "attach", "id": "704", "path": "./logs/crash.log"}
+  {"action": "attach", "id": "704", "path": "/tmp/screenshot.png"}
+
+**history** - Change timeline: state transitions, field diffs, time in each state
+  {"action": "history", "id": "704"}
+  {"action": "history", "id": "704", "limit": 50}   → last 50 changes
+
+**team** - Teams (Shortcut groups) and their boards
+  {"action": "team"}                                → all teams
+  {"action": "team", "id": "Platform"}              → members and in-flight stories by state
+
+**report** - Status digest: completed, in progress and blocked stories plus recent comments
+  {"action": "report"}                              → my last 24 hours
+  {"action": "report", "owner": "grace", "since": "3d"}
+  {"action": "report", "team": "Platform", "since": "2026-10-01", "group_by": "epic"}
+  {"action": "report", "epic": 308, "since": "1w"}
+  since: a date or "24h", "3d", "2w"; group_by: "state" (default) or "epic"
+
+**batch** - Apply one update to many stories (max 100, by ids or query)
+  {"action": "batch", "ids": ["704", "705"], "state": "Done"}
+  {"action": "batch", "query": {"iteration": 142, "state": "Ready"}, "iteration": 143, "dry_run": true}
+  {"action": "batch", "ids": ["704"], "add_labels": ["needs-qa"], "body": "Shipped in v2.3"}
+  Accepts state, owner, estimate, iteration, type, add_labels/remove_labels and body (posted as a comment).
+
+**epic_create** / **epic_update** - Manage epics (state, owner, dates and objectives are fuzzy matched)
+  {"action": "epic_create", "name": "Auth revamp", "owner": "me", "deadline": "2026-12-01"}
+  {"action": "epic_update", "id": "308", "state": "in progress", "objectives": ["Q4 Security"]}
+  {"action": "update", "id": "704", "epic": 308}    → move a story into an epic (null removes it)
+
+**iteration** - Sprint summary: points, stories by state, per-owner breakdown
+  {"action": "iteration"}                           → current iteration
+  {"action": "iteration", "id": "next"}
+  {"action": "iteration", "id": "142"}
+
+**refresh** - Refetch cached workflows, members, labels, epics, iterations, objectives, templates, groups and custom fields
+  {"action": "refresh"}
+  {"action": "refresh", "query": "labels"}
+
+**api** - Raw REST API for anything else
+  {"action": "api", "method": "GET", "path": "/workflows"}
+  {"action": "api", "method": "POST", "path": "/stories/search", "query": {"epic_ids": [308]}}
+  {"action": "api", "method": "DELETE", "path": "/stories/704", "confirm": true}
+
+## Safety
+
+Deletes and archives need "confirm": true. The server may also be read-only or restrict
+which method + path pairs are allowed; blocked calls return an error naming the rule.
+
+## Workspaces
+
+Every action accepts "workspace": "slug" when several workspaces are configured.
+Shortcut URLs select their workspace automatically, e.g. app.shortcut.com/globex/story/12.
+Without either, calls go to the default workspace. Cached data is kept per workspace.
+
+## Reference
+
+Story types: feature, bug, chore
+
+Estimate: story points (typically 1, 2, 3, 5, 8)
+
+Query filters: {owner: "me"|name|[names], unowned: true, requester: "me"|name, state: "name"|[names], workflow: "name",
+  labels: [names], team: "name", epic: id, iteration: id, type: "feature"|"bug"|"chore", archived: bool,
+  estimate: n|{min, max}, created_after/created_before, updated_after/updated_before, completed_after/completed_before: "YYYY-MM-DD"}
+Unknown filters, and values that match no member, state, label or team, are errors
+
+State matching is fuzzy: "done" → "Done", "in prog" → "In Progress"
+States resolve within the story's workflow on update; on create and search pass workflow when a name exists in several
+
+Custom field and value names are fuzzy matched: {"prio": "high"} → Priority: High; ambiguous or unknown names list the options
+
+Label names on update are fuzzy matched against existing labels; unknown labels are rejected with suggestions
+
+IDs accept: 704, sc-704, branch names containing sc-704, or shortcut.com URLs
+
+Output: search, get, epic, iteration, team and report accept "format": "json" for normalized objects with resolved state and owner names
+
+Paging: search and epic return 25 stories by default (limit: 1-250; text searches at most 25 per page). When more exist, the result ends with the call for the next page.`;
+}
+
+// Tool parameter schema
+export const ShortcutParams = z.object({
+  action: z.enum(["search", "get", "update", "comment", "create", "epic", "epic_create", "epic_update", "iteration", "batch", "link", "unlink", "task", "branch", "history", "team", "report", "attach", "refresh", "api", "help"]),
+  query: z.union([z.string(), z.record(z.unknown())]).optional(),
+  id: z.string().optional(),
+  state: z.string().optional(),
+  estimate: z.number().optional(),
+  owner: z.string().nullable().optional(),
+  type: z.enum(["feature", "bug", "chore"]).optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  body: z.string().optional(),
+  epic: z.number().nullable().optional(),
+  deadline: z.string().nullable().optional(),
+  start_date: z.string().nullable().optional(),
+  objectives: z.array(z.string()).optional(),
+  iteration: z.number().nullable().optional(),
+  team: z.string().nullable().optional(),
+  requester: z.string().optional(),
+  fields: z.record(z.string().nullable()).optional(),
+  labels: z.array(z.string()).optional(),
+  template: z.string().optional(),
+  values: z.record(z.string()).optional(),
+  add_labels: z.array(z.string()).optional(),
+  remove_labels: z.array(z.string()).optional(),
+  add_links: z.array(z.string()).optional(),
+  remove_links: z.array(z.string()).optional(),
+  method: z.string().optional(),
+  path: z.string().optional(),
+  limit: z.number().optional(),
+  cursor: z.string().optional(),
+  format: z.enum(["markdown", "json"]).optional(),
+  ids: z.array(z.string()).optional(),
+  workflow: z.string().optional(),
+  target: z.string().optional(),
+  verb: z.string().optional(),
+  task: z.string().optional(),
+  complete: z.boolean().optional(),
+  delete: z.boolean().optional(),
+  dry_run: z.boolean().optional(),
+  confirm: z.boolean().optional(),
+  parent_id: z.number().optional(),
+  comment_id: z.number().optional(),
+  reaction: z.string().optional(),
+  since: z.string().optional(),
+  group_by: z.enum(["state", "epic"]).optional(),
+  workspace: z.string().optional(),
+});
+
+// Workflows and their states in board order (the shortcut://workflows resource)
+export async function formatWorkflows(): Promise<string> {
+  const workflows = await getWorkflows();
+  if (workflows.length === 0) return "No workflows found.";
+
+  return workflows
+    .map((wf) => {
+      const states = (wf.states as Array<Record<string, unknown>> | undefined) || [];
+      const lines = states.map((s) => `- ${s.name} (${s.type}, id ${s.id})`);
+      return `## ${wf.name} (${wf.id})\n${lines.join("\n") || "No states"}`;
+    })
+    .join("\n\n");
+}
+
+// Build dynamic tool description with workflow states
+export async function buildToolDescription(): Promise<string> {
+  let workflows = await getWorkflows();
+
+  // With a default team, list only its workflows; the team action covers the rest
+  let teamLine = "";
+  const teamName = defaultTeam();
+  if (teamName) {
+    try {
+      const team = await findTeam(teamName);
+      const workflowIds = (team.workflow_ids as number[] | undefined) || [];
+      if (workflowIds.length > 0) workflows = workflows.filter((wf) => workflowIds.includes(wf.id as number));
+      teamLine = `\n\nDefault team: ${team.name} (new stories land on its board; {"action": "team"} lists all teams)`;
+    } catch {
+      // Unknown or unreachable team: list every workflow
+    }
+  }
+
+  const workspaces = listWorkspaces().map((w) => w.slug);
+  const workspaceLine =
+    workspaces.length > 1
+      ? `\n\nWorkspaces: ${workspaces.join(", ")} (default ${resolveWorkspace().slug}; pass "workspace" or a URL to switch)`
+      : "";
+
+  const stateLines = workflows.map((wf) => {
+    const states = (wf.states as Array<Record<string, unknown>> | undefined) || [];
+    const stateNames = states.map((s) => s.name as string).join(", ");
+    return `  ${wf.name}: ${stateNames}`;
+  });
+
+  return `Shortcut stories. Actions: help, search, get, update, comment, create, epic, epic_create, epic_update, iteration, batch, link, unlink, task, branch, history, team, report, attach, refresh, api
+
+Workflows (states):
+${stateLines.join("\n")}${teamLine}${workspaceLine}
+
+{"action": "search"} → your active stories
+{"action": "search", "query": "text"} → text search (limit, cursor to page)
+{"action": "get", "id": "704"} → story details
+{"action": "update", "id": "704", "state": "Done"}
+{"action": "create", "name": "Title", "type": "feature"}
+{"action": "epic", "id": "308"} → epic with stories
+{"action": "iteration", "id": "current"} → sprint burndown
+{"action": "team", "id": "Platform"} → team members and in-flight stories
+{"action": "report", "since": "24h"} → standup digest: completed, in progress, blocked, comments
+{"action": "help"} → full documentation`;
+}
+
+// Explicit workspace param, else the workspace of any Shortcut URL passed in, else the default
+function selectWorkspace(params: z.infer<typeof ShortcutParams>): Workspace {
+  if (params.workspace) return resolveWorkspace(params.workspace);
+  for (const input of [params.id, params.target, ...(params.ids || [])]) {
+    const workspace = input ? workspaceForUrl(input) : null;
+    if (workspace) return workspace;
+  }
+  return resolveWorkspace();
+}
+
+// Run one call of the shortcut tool
+export async function runShortcutTool(args: unknown): Promise<CallToolResult> {
+  const params = ShortcutParams.parse(args);
+  let workspace: Workspace;
+  try {
+    workspace = selectWorkspace(params);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: "text", text: `Error: ${message}` }], isError: true };
+  }
+  return callContext.run({ confirm: params.confirm === true, workspace }, () => runAction(params));
+}
+
+async function runAction(params: z.infer<typeof ShortcutParams>): Promise<CallToolResult> {
+  try {
+    let result: string;
+
+    switch (params.action) {
+      case "search":
+        if (params.fields && typeof params.query === "string") {
+          throw new Error("fields filters need an object query, not text");
+        }
+        result = await handleSearch(
+          params.fields ? { ...(params.query as Record<string, unknown> | undefined), fields: params.fields } : params.query,
+          params.limit,
+          params.cursor,
+          params.format
+        );
+        break;
+
+      case "get":
+        if (!params.id) throw new Error("id is required for get action");
+        result = await handleGet(params.id, params.format);
+        break;
+
+      case "update":
+        if (!params.id) throw new Error("id is required for update action");
+        result = await handleUpdate(params.id, {
+          state: params.state,
+          estimate: params.estimate,
+          owner: params.owner,
+          type: params.type,
+          name: params.name,
+          description: params.description,
+          iteration: params.iteration,
+          epic: params.epic,
+          team: params.team,
+          deadline: params.deadline,
+          requester: params.requester,
+          fields: params.fields,
+          addLabels: params.add_labels,
+          removeLabels: params.remove_labels,
+          addLinks: params.add_links,
+          removeLinks: params.remove_links,
+        });
+        break;
+
+      case "comment":
+        if (!params.id) throw new Error("id is required for comment action");
+        result = await handleComment(params.id, params.body, {
+          parentId: params.parent_id,
+          commentId: params.comment_id,
+          delete: params.delete,
+          reaction: params.reaction,
+        });
+        break;
+
+      case "create":
+        if (!params.name) throw new Error("name is required for create action");
+        result = await handleCreate(params.name, {
+          description: params.description,
+          type: params.type,
+          estimate: params.estimate,
+          epic: params.epic ?? undefined,
+          iteration: params.iteration ?? undefined,
+          state: params.state,
+          workflow: params.workflow,
+          owner: params.owner ?? undefined,
+          team: params.team ?? undefined,
+          requester: params.requester,
+          deadline: params.deadline ?? undefined,
+          fields: params.fields,
+          labels: params.labels,
+          template: params.template,
+          values: params.values,
+        });
+        break;
+
+      case "epic":
+        if (!params.id) throw new Error("id is required for epic action");
+        result = await handleEpic(params.id, params.limit, params.cursor, params.format);
+        break;
+
+      case "epic_create":
+        if (!params.name) throw new Error("name is required for epic_create action");
+        result = await handleEpicCreate(params.name, {
+          description: params.description,
+          state: params.state,
+          owner: params.owner,
+          deadline: params.deadline,
+          startDate: params.start_date,
+          objectives: params.objectives,
+        });
+        break;
+
+      case "epic_update":
+        if (!params.id) throw new Error("id is required for epic_update action");
+        result = await handleEpicUpdate(params.id, {
+          name: params.name,
+          description: params.description,
+          state: params.state,
+          owner: params.owner,
+          deadline: params.deadline,
+          startDate: params.start_date,
+          objectives: params.objectives,
+        });
+        break;
+
+      case "iteration":
+        result = await handleIteration(params.id || "current", params.format);
+        break;
+
+      case "batch":
+        if (!params.ids && params.query === undefined) {
+          throw new Error("ids or query is required for batch action");
+        }
+        result = await handleBatch(
+          { ids: params.ids, query: params.query },
+          {
+            state: params.state,
+            estimate: params.estimate,
+            owner: params.owner,
+            type: params.type,
+            iteration: params.iteration,
+            team: params.team,
+            addLabels: [...(params.labels || []), ...(params.add_labels || [])],
+            removeLabels: params.remove_labels,
+            comment: params.body,
+          },
+          params.dry_run
+        );
+        break;
+
+      case "link":
+        if (!params.id) throw new Error("id is required for link action");
+        if (!params.target) throw new Error("target is required for link action");
+        if (!params.verb) throw new Error("verb is required for link action");
+        result = await handleLink(params.id, params.target, params.verb);
+        break;
+
+      case "unlink":
+        if (!params.id) throw new Error("id is required for unlink action");
+        if (!params.target) throw new Error("target is required for unlink action");
+        result = await handleUnlink(params.id, params.target, params.verb);
+        break;
+
+      case "task":
+        if (!params.id) throw new Error("id is required for task action");
+        result = await handleTask(params.id, {
+          add: params.body,
+          task: params.task,
+          complete: params.complete,
+          remove: params.delete,
+        });
+        break;
+
+      case "branch":
+        result = await handleBranch(params.id || "current");
+        break;
+
+      case "history":
+        if (!params.id) throw new Error("id is required for history action");
+        result = await handleHistory(params.id, params.limit);
+        break;
+
+      case "team":
+        result = await handleTeam(params.id, params.format);
+        break;
+
+      case "report":
+        result = await handleReport(
+          {
+            owner: params.owner ?? undefined,
+            team: params.team ?? undefined,
+            epic: params.epic ?? undefined,
+            since: params.since,
+            groupBy: params.group_by,
+          },
+          params.format
+        );
+        break;
+
+      case "attach":
+        if (!params.id) throw new Error("id is required for attach action");
+        if (!params.path) throw new Error("path is required for attach action");
+        result = await handleAttach(params.id, params.path);
+        break;
+
+      case "refresh":
+        if (params.query !== undefined && typeof params.query !== "string") {
+          throw new Error("query must be a cache name for refresh action");
+        }
+        result = await handleRefresh(params.query);
+        break;
+
+      case "api":
+        if (!params.method) throw new Error("method is required for api action");
+        if (!params.path) throw new Error("path is required for api action");
+        result = await handleApi(
+          params.method,
+          params.path,
+          params.query as Record<string, unknown> | undefined
+        );
+        break;
+
+      case "help":
+        result = handleHelp();
+        break;
+
+      default:
+        throw new Error(`Unknown action: ${params.action}`);
+    }
+
+    return { content: [{ type: "text", text: result }] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: "text", text: `Error: ${message}` }], isError: true };
+  }
+}
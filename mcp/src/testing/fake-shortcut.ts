@@ -0,0 +1,641 @@
+// In-memory fake of the Shortcut REST API for tests and offline development.
+// Covers the endpoints the shortcut tool uses; anything else returns 404.
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+type Row = Record<string, unknown>;
+
+export interface FakeShortcutData {
+  member: Row;
+  members: Row[];
+  workflows: Row[];
+  labels: Row[];
+  epics: Row[];
+  iterations: Row[];
+  epicWorkflow: Row;
+  objectives: Row[];
+  entityTemplates: Row[];
+  groups: Row[];
+  customFields: Row[];
+  stories: Row[];
+  storyLinks: Row[];
+  histories: Record<number, Row[]>;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: unknown;
+  token: string;
+}
+
+interface FakeResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+// A failure to inject: respond with status (and body/headers) instead of routing,
+// optionally after a delay; a delay alone slows down the real response.
+// With a path, the fault waits for the first request to that path.
+export interface FakeFault {
+  path?: string;
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  delayMs?: number;
+}
+
+const APP_URL = "https://app.shortcut.com/acme";
+
+function isoDate(offsetDays: number): string {
+  return new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// A small workspace: two members, one workflow, one epic, one current iteration
+export function defaultFixture(): FakeShortcutData {
+  return {
+    member: { id: "u-ada", profile: { name: "Ada Lovelace", mention_name: "ada" } },
+    members: [
+      { id: "u-ada", profile: { name: "Ada Lovelace", mention_name: "ada" } },
+      { id: "u-grace", profile: { name: "Grace Hopper", mention_name: "grace" } },
+    ],
+    workflows: [
+      {
+        id: 500,
+        name: "Engineering",
+        states: [
+          { id: 500001, name: "Ready", type: "unstarted" },
+          { id: 500002, name: "In Progress", type: "started" },
+          { id: 500003, name: "In Review", type: "started" },
+          { id: 500004, name: "Done", type: "done" },
+        ],
+      },
+    ],
+    labels: [
+      { id: 1, name: "backend", archived: false },
+      { id: 2, name: "frontend", archived: false },
+      { id: 3, name: "needs-qa", archived: false },
+    ],
+    epics: [
+      {
+        id: 308,
+        name: "Auth revamp",
+        state: "in progress",
+        epic_state_id: 700002,
+        owner_ids: ["u-ada"],
+        deadline: "2026-12-01T00:00:00Z",
+        objective_ids: [40],
+        app_url: `${APP_URL}/epic/308`,
+        stats: {
+          num_stories_total: 3,
+          num_stories_done: 0,
+          num_points: 8,
+          num_points_done: 0,
+          num_points_started: 3,
+        },
+      },
+    ],
+    epicWorkflow: {
+      epic_states: [
+        { id: 700001, name: "To Do", type: "unstarted" },
+        { id: 700002, name: "In Progress", type: "started" },
+        { id: 700003, name: "Done", type: "done" },
+      ],
+    },
+    objectives: [{ id: 40, name: "Q4 Security" }],
+    entityTemplates: [
+      {
+        id: "tpl-spike",
+        name: "Research spike",
+        story_contents: {
+          description: "## Question\n{{question}}",
+          story_type: "chore",
+          estimate: 2,
+          labels: [{ name: "frontend" }],
+        },
+      },
+    ],
+    groups: [
+      {
+        id: "g-platform",
+        name: "Platform",
+        mention_name: "platform",
+        member_ids: ["u-ada", "u-grace"],
+        workflow_ids: [500],
+        archived: false,
+        app_url: `${APP_URL}/settings/team/g-platform`,
+      },
+      { id: "g-mobile", name: "Mobile", mention_name: "mobile", member_ids: ["u-grace"], workflow_ids: [], archived: false },
+    ],
+    customFields: [
+      {
+        id: "cf-priority",
+        name: "Priority",
+        enabled: true,
+        values: [
+          { id: "p-highest", value: "Highest", enabled: true },
+          { id: "p-high", value: "High", enabled: true },
+          { id: "p-medium", value: "Medium", enabled: true },
+          { id: "p-low", value: "Low", enabled: true },
+        ],
+      },
+      {
+        id: "cf-area",
+        name: "Product Area",
+        enabled: true,
+        values: [
+          { id: "a-auth", value: "Authentication", enabled: true },
+          { id: "a-billing", value: "Billing", enabled: true },
+        ],
+      },
+    ],
+    iterations: [
+      {
+        id: 142,
+        name: "Sprint 12",
+        status: "started",
+        start_date: isoDate(-7),
+        end_date: isoDate(7),
+        app_url: `${APP_URL}/iteration/142`,
+      },
+    ],
+    stories: [
+      {
+        id: 701,
+        name: "Login fails on Safari",
+        description: "Safari drops the session cookie.",
+        story_type: "bug",
+        estimate: 3,
+        workflow_id: 500,
+        workflow_state_id: 500002,
+        epic_id: 308,
+        iteration_id: 142,
+        owner_ids: ["u-ada"],
+        requested_by_id: "u-grace",
+        group_id: "g-platform",
+        created_at: "2026-01-01T09:00:00Z",
+        updated_at: "2026-01-02T10:00:00Z",
+        custom_fields: [{ field_id: "cf-priority", value_id: "p-high", value: "High" }],
+        follower_ids: [],
+        labels: [{ id: 1, name: "backend" }],
+        archived: false,
+        comments: [
+          { id: 9001, author_id: "u-grace", text: "Repro on Safari 17", created_at: "2026-01-01T10:00:00Z" },
+          { id: 9002, author_id: "u-ada", text: "Looking into it", created_at: "2026-01-02T10:00:00Z" },
+        ],
+        tasks: [
+          { id: 8001, description: "Reproduce locally", complete: true },
+          { id: 8002, description: "Write regression test", complete: false },
+        ],
+        branches: [{ id: 1, name: "ada/sc-701/login-fails-on-safari", deleted: false }],
+        pull_requests: [
+          { id: 1, number: 42, title: "Fix Safari cookie", url: "https://github.com/acme/app/pull/42", merged: false },
+        ],
+        commits: [{ id: 1, hash: "0123456789abcdef", message: "Keep SameSite cookie\n\nDetails" }],
+      },
+      {
+        id: 702,
+        name: "Add OAuth provider",
+        story_type: "feature",
+        estimate: 5,
+        workflow_id: 500,
+        workflow_state_id: 500001,
+        epic_id: 308,
+        iteration_id: 142,
+        owner_ids: ["u-ada"],
+        labels: [],
+        archived: false,
+        created_at: "2026-02-01T09:00:00Z",
+      },
+      {
+        id: 703,
+        name: "Update login docs",
+        story_type: "chore",
+        estimate: 1,
+        workflow_id: 500,
+        workflow_state_id: 500004,
+        iteration_id: 142,
+        owner_ids: ["u-grace"],
+        labels: [],
+        archived: false,
+        created_at: "2026-03-01T09:00:00Z",
+        completed_at: `${isoDate(0)}T00:00:00Z`,
+        updated_at: `${isoDate(0)}T00:00:00Z`,
+      },
+      {
+        id: 704,
+        name: "Refactor session store",
+        story_type: "feature",
+        estimate: null,
+        workflow_id: 500,
+        workflow_state_id: 500001,
+        epic_id: 308,
+        owner_ids: [],
+        labels: [],
+        archived: false,
+        created_at: "2026-04-01T09:00:00Z",
+      },
+    ],
+    storyLinks: [],
+    histories: {
+      701: [
+        {
+          id: "h1",
+          changed_at: "2026-01-01T09:00:00Z",
+          member_id: "u-grace",
+          actions: [{ id: 701, entity_type: "story", action: "create", name: "Login fails on Safari", workflow_state_id: 500001 }],
+          references: [],
+        },
+        {
+          id: "h2",
+          changed_at: "2026-01-02T09:00:00Z",
+          member_id: "u-ada",
+          actions: [
+            {
+              id: 701,
+              entity_type: "story",
+              action: "update",
+              changes: {
+                workflow_state_id: { old: 500001, new: 500002 },
+                estimate: { old: 2, new: 3 },
+                owner_ids: { adds: ["u-ada"] },
+              },
+            },
+            { id: 9002, entity_type: "story-comment", action: "create", description: "Looking into it" },
+          ],
+          references: [{ id: 500002, entity_type: "workflow-state", name: "In Progress", type: "started" }],
+        },
+      ],
+    },
+  };
+}
+
+export class FakeShortcut {
+  data: FakeShortcutData;
+  requests: RecordedRequest[] = [];
+  // Each applies once, in order, to the next matching request
+  faults: FakeFault[] = [];
+  private server: Server | null = null;
+  private nextId = 10000;
+
+  constructor(data: FakeShortcutData = defaultFixture()) {
+    this.data = data;
+  }
+
+  // Start listening on a random local port; returns the API base URL
+  async start(): Promise<string> {
+    this.server = createServer(async (req, res) => {
+      const body = await readBody(req);
+      const url = new URL(req.url || "/", "http://localhost");
+      const path = url.pathname.replace(/^\/api\/v3/, "");
+      const token = String(req.headers["shortcut-token"] || "");
+      this.requests.push({ method: req.method || "GET", path: `${path}${url.search}`, body, token });
+
+      const index = this.faults.findIndex((f) => f.path === undefined || f.path === path);
+      const fault = index >= 0 ? this.faults.splice(index, 1)[0] : undefined;
+      if (fault?.delayMs) await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+      if (res.destroyed) return;
+
+      const response =
+        fault?.status !== undefined
+          ? { status: fault.status, body: fault.body, headers: fault.headers }
+          : this.route(req.method || "GET", path, url.searchParams, body as Row);
+      res.writeHead(response.status, { "Content-Type": "application/json", ...response.headers });
+      res.end(response.body === undefined ? "" : JSON.stringify(response.body));
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/api/v3`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  story(id: number): Row | undefined {
+    return this.data.stories.find((s) => s.id === id);
+  }
+
+  private route(method: string, path: string, query: URLSearchParams, body: Row): FakeResponse {
+    const d = this.data;
+    let m: RegExpMatchArray | null;
+
+    if (method === "GET") {
+      if (path === "/member") return ok(d.member);
+      if (path === "/members") return ok(d.members);
+      if (path === "/workflows") return ok(d.workflows);
+      if (path === "/labels") return ok(d.labels);
+      if (path === "/epics") return ok(d.epics);
+      if (path === "/iterations") return ok(d.iterations);
+      if (path === "/epic-workflow") return ok(d.epicWorkflow);
+      if (path === "/objectives") return ok(d.objectives);
+      if (path === "/entity-templates") return ok(d.entityTemplates);
+      if (path === "/groups") return ok(d.groups);
+      if (path === "/custom-fields") return ok(d.customFields);
+      if (path === "/search/stories") return this.searchText(query);
+      if ((m = path.match(/^\/epics\/(\d+)$/))) return found(d.epics.find((e) => e.id === Number(m![1])));
+      if ((m = path.match(/^\/iterations\/(\d+)$/))) {
+        return found(d.iterations.find((it) => it.id === Number(m![1])));
+      }
+      if ((m = path.match(/^\/iterations\/(\d+)\/stories$/))) {
+        return ok(d.stories.filter((s) => s.iteration_id === Number(m![1])).map((s) => this.present(s)));
+      }
+      if ((m = path.match(/^\/stories\/(\d+)$/))) {
+        const story = this.story(Number(m[1]));
+        return story ? ok(this.present(story)) : notFound();
+      }
+      if ((m = path.match(/^\/stories\/(\d+)\/comments\/(\d+)$/))) {
+        return found(this.comment(Number(m[1]), Number(m[2])));
+      }
+      if ((m = path.match(/^\/stories\/(\d+)\/history$/))) {
+        return this.story(Number(m[1])) ? ok(d.histories[Number(m[1])] || []) : notFound();
+      }
+    }
+
+    if (method === "POST") {
+      if (path === "/stories/search") return ok(this.searchFilter(body).map((s) => this.present(s)));
+      if (path === "/stories") return ok(this.present(this.createStory(body)));
+      if (path === "/epics") {
+        const id = this.nextId++;
+        const epic = { id, stats: {}, ...body, app_url: `${APP_URL}/epic/${id}` };
+        d.epics.push(epic);
+        return ok(epic);
+      }
+      if (path === "/files") {
+        const story = this.story(Number(body.story_id));
+        if (!story) return notFound();
+        const files = Object.values(body)
+          .filter((value): value is Row => typeof value === "object" && value !== null)
+          .map((file) => {
+            const id = this.nextId++;
+            return { id, ...file, url: `https://media.app.shortcut.com/files/${id}/${file.name}` };
+          });
+        story.files = [...((story.files as Row[]) || []), ...files];
+        return ok(files);
+      }
+      if (path === "/story-links") {
+        const link = { id: this.nextId++, ...body };
+        d.storyLinks.push(link);
+        return ok(link);
+      }
+      if ((m = path.match(/^\/stories\/(\d+)\/comments$/))) {
+        const story = this.story(Number(m[1]));
+        if (!story) return notFound();
+        const comment = { id: this.nextId++, author_id: d.member.id, created_at: new Date().toISOString(), ...body };
+        story.comments = [...((story.comments as Row[]) || []), comment];
+        return ok(comment);
+      }
+      if ((m = path.match(/^\/stories\/(\d+)\/comments\/(\d+)\/reactions$/))) {
+        const comment = this.comment(Number(m[1]), Number(m[2]));
+        if (!comment) return notFound();
+        const reactions = (comment.reactions as Row[] | undefined) || [];
+        const existing = reactions.find((r) => r.emoji === body.emoji);
+        if (existing) existing.permission_ids = [...(existing.permission_ids as string[]), d.member.id];
+        else reactions.push({ emoji: body.emoji, permission_ids: [d.member.id] });
+        comment.reactions = reactions;
+        return ok(reactions);
+      }
+      if ((m = path.match(/^\/stories\/(\d+)\/tasks$/))) {
+        const story = this.story(Number(m[1]));
+        if (!story) return notFound();
+        const task = { id: this.nextId++, complete: false, ...body };
+        story.tasks = [...((story.tasks as Row[]) || []), task];
+        return ok(task);
+      }
+    }
+
+    if (method === "PUT") {
+      if ((m = path.match(/^\/epics\/(\d+)$/))) {
+        const epic = d.epics.find((e) => e.id === Number(m![1]));
+        if (!epic) return notFound();
+        Object.assign(epic, body);
+        return ok(epic);
+      }
+      if ((m = path.match(/^\/stories\/(\d+)$/))) {
+        const story = this.story(Number(m[1]));
+        if (!story) return notFound();
+        Object.assign(story, this.normalizeStoryInput(body));
+        return ok(this.present(story));
+      }
+      if ((m = path.match(/^\/stories\/(\d+)\/tasks\/(\d+)$/))) {
+        const task = this.task(Number(m[1]), Number(m[2]));
+        if (!task) return notFound();
+        Object.assign(task, body);
+        return ok(task);
+      }
+      if ((m = path.match(/^\/stories\/(\d+)\/comments\/(\d+)$/))) {
+        const comment = this.comment(Number(m[1]), Number(m[2]));
+        if (!comment) return notFound();
+        Object.assign(comment, body, { updated_at: new Date().toISOString() });
+        return ok(comment);
+      }
+    }
+
+    if (method === "DELETE") {
+      if ((m = path.match(/^\/stories\/(\d+)\/tasks\/(\d+)$/))) {
+        const story = this.story(Number(m[1]));
+        if (!story || !this.task(Number(m[1]), Number(m[2]))) return notFound();
+        story.tasks = ((story.tasks as Row[]) || []).filter((t) => t.id !== Number(m![2]));
+        return { status: 204 };
+      }
+      if ((m = path.match(/^\/stories\/(\d+)\/comments\/(\d+)$/))) {
+        const story = this.story(Number(m[1]));
+        if (!story || !this.comment(Number(m[1]), Number(m[2]))) return notFound();
+        story.comments = ((story.comments as Row[]) || []).filter((c) => c.id !== Number(m![2]));
+        return { status: 204 };
+      }
+      if ((m = path.match(/^\/story-links\/(\d+)$/))) {
+        const before = d.storyLinks.length;
+        d.storyLinks = d.storyLinks.filter((l) => l.id !== Number(m![1]));
+        return before === d.storyLinks.length ? notFound() : { status: 204 };
+      }
+    }
+
+    return notFound();
+  }
+
+  private comment(storyId: number, commentId: number): Row | undefined {
+    return ((this.story(storyId)?.comments as Row[] | undefined) || []).find((c) => c.id === commentId);
+  }
+
+  private task(storyId: number, taskId: number): Row | undefined {
+    return ((this.story(storyId)?.tasks as Row[] | undefined) || []).find((t) => t.id === taskId);
+  }
+
+  private stateType(stateId: unknown): string | undefined {
+    for (const wf of this.data.workflows) {
+      const state = (wf.states as Row[]).find((s) => s.id === stateId);
+      if (state) return state.type as string;
+    }
+    return undefined;
+  }
+
+  // Add the derived fields Shortcut computes on read
+  private present(story: Row): Row {
+    const type = this.stateType(story.workflow_state_id);
+    const storyLinks = this.data.storyLinks
+      .filter((l) => l.subject_id === story.id || l.object_id === story.id)
+      .map((l): Row => ({ ...l, type: l.subject_id === story.id ? "subject" : "object" }));
+    // Blocked while any story blocking this one is unfinished
+    const blocked = storyLinks.some(
+      (l) =>
+        l.verb === "blocks" &&
+        l.type === "object" &&
+        this.stateType(this.story(l.subject_id as number)?.workflow_state_id) !== "done"
+    );
+
+    return {
+      comments: [],
+      tasks: [],
+      ...story,
+      story_links: storyLinks,
+      blocked,
+      started: type === "started" || type === "done",
+      completed: type === "done",
+      app_url: `${APP_URL}/story/${story.id}`,
+    };
+  }
+
+  // Labels arrive as [{name}]; map to existing labels, creating missing ones like Shortcut does
+  private normalizeStoryInput(input: Row): Row {
+    const result = { ...input };
+    if (Array.isArray(input.custom_fields)) {
+      result.custom_fields = (input.custom_fields as Row[]).map((cf) => {
+        const field = this.data.customFields.find((f) => f.id === cf.field_id);
+        const value = ((field?.values as Row[] | undefined) || []).find((v) => v.id === cf.value_id);
+        return { ...cf, value: value?.value };
+      });
+    }
+    if (Array.isArray(input.labels)) {
+      result.labels = (input.labels as Row[]).map((l) => {
+        let label = this.data.labels.find((existing) => existing.name === l.name);
+        if (!label) {
+          label = { id: this.nextId++, name: l.name, archived: false };
+          this.data.labels.push(label);
+        }
+        return { id: label.id, name: label.name };
+      });
+    }
+    return result;
+  }
+
+  private createStory(input: Row): Row {
+    const story: Row = {
+      id: this.nextId++,
+      story_type: "feature",
+      estimate: null,
+      owner_ids: [],
+      labels: [],
+      archived: false,
+      workflow_id: this.data.workflows[0]?.id,
+      ...this.normalizeStoryInput(input),
+    };
+    this.data.stories.push(story);
+    return story;
+  }
+
+  private searchFilter(params: Row): Row[] {
+    return this.data.stories.filter((s) => {
+      if (params.archived !== undefined && Boolean(s.archived) !== params.archived) return false;
+      if (params.workflow_state_id && s.workflow_state_id !== params.workflow_state_id) return false;
+      if (
+        Array.isArray(params.workflow_state_types) &&
+        !params.workflow_state_types.includes(this.stateType(s.workflow_state_id))
+      ) {
+        return false;
+      }
+      if (params.story_type && s.story_type !== params.story_type) return false;
+      if (params.requested_by_id && s.requested_by_id !== params.requested_by_id) return false;
+      if (params.estimate !== undefined && s.estimate !== params.estimate) return false;
+      if (Array.isArray(params.group_ids) && !params.group_ids.includes(s.group_id)) return false;
+      if (Array.isArray(params.label_ids)) {
+        const labels = ((s.labels as Row[]) || []).map((l) => l.id);
+        if (!params.label_ids.some((id) => labels.includes(id))) return false;
+      }
+      for (const field of ["created_at", "updated_at", "completed_at"]) {
+        const start = params[`${field}_start`] as string | undefined;
+        const end = params[`${field}_end`] as string | undefined;
+        if (!start && !end) continue;
+        const value = Date.parse(String(s[field] ?? ""));
+        if (Number.isNaN(value)) return false;
+        if (start && value < Date.parse(start)) return false;
+        if (end && value > Date.parse(end)) return false;
+      }
+      if (Array.isArray(params.epic_ids) && !params.epic_ids.includes(s.epic_id)) return false;
+      if (Array.isArray(params.iteration_ids) && !params.iteration_ids.includes(s.iteration_id)) {
+        return false;
+      }
+      if (Array.isArray(params.owner_ids)) {
+        const owners = (s.owner_ids as string[]) || [];
+        if (!params.owner_ids.some((id) => owners.includes(id as string))) return false;
+      }
+      return true;
+    });
+  }
+
+  // Plain substring match on name/description, paged with Shortcut-style `next` links
+  private searchText(query: URLSearchParams): FakeResponse {
+    const text = (query.get("query") || "").toLowerCase();
+    const pageSize = Number(query.get("page_size") || 25);
+    if (pageSize > 25) {
+      return { status: 400, body: { message: "Invalid page_size", errors: { page_size: "must be at most 25" } } };
+    }
+    const offset = Number(query.get("next") || 0);
+    const matches = this.data.stories.filter((s) =>
+      `${s.name} ${s.description || ""}`.toLowerCase().includes(text)
+    );
+    const end = offset + pageSize;
+
+    let next: string | null = null;
+    if (end < matches.length) {
+      const params = new URLSearchParams(query);
+      params.set("next", String(end));
+      next = `/api/v3/search/stories?${params}`;
+    }
+
+    return ok({
+      data: matches.slice(offset, end).map((s) => this.present(s)),
+      next,
+      total: matches.length,
+    });
+  }
+}
+
+function ok(body: unknown): FakeResponse {
+  return { status: 200, body };
+}
+
+function notFound(): FakeResponse {
+  return { status: 404, body: { message: "Resource not found" } };
+}
+
+function found(row: Row | undefined): FakeResponse {
+  return row ? ok(row) : notFound();
+}
+
+// JSON or text; multipart uploads become a row with files as {name, size, content_type}
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const contentType = String(req.headers["content-type"] || "");
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await new Response(Buffer.concat(chunks), { headers: { "Content-Type": contentType } }).formData();
+    const row: Row = {};
+    for (const [key, value] of form.entries()) {
+      row[key] =
+        typeof value === "string" ? value : { name: value.name, size: value.size, content_type: value.type };
+    }
+    return row;
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,113 @@
+// Shortcut workspaces and their API tokens. Either a single SHORTCUT_API_TOKEN,
+// or a config file (SHORTCUT_CONFIG, default $XDG_CONFIG_HOME/streamshortcut/config.json):
+//   {
+//     "default": "acme",
+//     "workspaces": {
+//       "acme": { "token": "...", "team": "Platform" },
+//       "globex": { "token_env": "GLOBEX_SHORTCUT_TOKEN" }
+//     }
+//   }
+// Keys are workspace URL slugs (app.shortcut.com/<slug>/story/123). "team" is the
+// default team for new stories, overriding SHORTCUT_DEFAULT_TEAM.
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+export interface Workspace {
+  slug: string;
+  token: string;
+  apiUrl?: string;
+  team?: string;
+}
+
+interface WorkspaceConfig {
+  default: string | null;
+  workspaces: Workspace[];
+}
+
+// Slug used for the workspace given only by SHORTCUT_API_TOKEN
+const ENV_WORKSPACE = "default";
+
+export function configPath(): string {
+  return (
+    process.env.SHORTCUT_CONFIG ||
+    join(process.env.XDG_CONFIG_HOME || join(homedir(), ".config"), "streamshortcut", "config.json")
+  );
+}
+
+// Read per call so edits to the config file apply without a restart
+function loadConfig(): WorkspaceConfig {
+  let raw: Record<string, unknown> | null = null;
+  try {
+    raw = JSON.parse(readFileSync(configPath(), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read ${configPath()}: ${msg}`);
+    }
+  }
+
+  const workspaces: Workspace[] = [];
+  const entries = (raw?.workspaces as Record<string, Record<string, unknown>> | undefined) || {};
+  for (const [slug, entry] of Object.entries(entries)) {
+    const token = entry.token_env ? process.env[String(entry.token_env)] : entry.token;
+    if (typeof token === "string" && token) {
+      workspaces.push({
+        slug,
+        token,
+        apiUrl: entry.api_url as string | undefined,
+        team: entry.team as string | undefined,
+      });
+    }
+  }
+
+  const envToken = process.env.SHORTCUT_API_TOKEN;
+  if (envToken && !workspaces.some((w) => w.token === envToken)) {
+    workspaces.push({ slug: ENV_WORKSPACE, token: envToken });
+  }
+
+  const configured = typeof raw?.default === "string" ? raw.default : null;
+  return { default: configured, workspaces };
+}
+
+export function listWorkspaces(): Workspace[] {
+  return loadConfig().workspaces;
+}
+
+// Resolve a workspace by slug; without one, the configured default (or the only/env workspace)
+export function resolveWorkspace(slug?: string): Workspace {
+  const config = loadConfig();
+  if (config.workspaces.length === 0) {
+    throw new Error(`No Shortcut token configured. Set SHORTCUT_API_TOKEN or add workspaces to ${configPath()}`);
+  }
+
+  if (slug) {
+    const lower = slug.trim().toLowerCase();
+    const match = config.workspaces.find((w) => w.slug.toLowerCase() === lower);
+    if (match) return match;
+    const valid = config.workspaces.map((w) => w.slug).join(", ");
+    throw new Error(`Workspace "${slug}" is not configured. Valid workspaces: ${valid}`);
+  }
+
+  return (
+    config.workspaces.find((w) => w.slug === config.default) ||
+    config.workspaces.find((w) => w.slug === ENV_WORKSPACE) ||
+    config.workspaces[0]
+  );
+}
+
+// Workspace named by a Shortcut URL, e.g. https://app.shortcut.com/acme/story/704.
+// Null when the input is not a URL, or only the env token is configured (its slug is unknown).
+export function workspaceForUrl(input: string): Workspace | null {
+  const match = input.match(/shortcut\.com\/([^/]+)\/(?:story|epic|iteration)\//i);
+  if (!match) return null;
+
+  const workspaces = listWorkspaces();
+  const slug = match[1].toLowerCase();
+  const configured = workspaces.find((w) => w.slug.toLowerCase() === slug);
+  if (configured) return configured;
+  if (workspaces.every((w) => w.slug === ENV_WORKSPACE)) return null;
+
+  const valid = workspaces.map((w) => w.slug).join(", ");
+  throw new Error(`Workspace "${match[1]}" from the URL is not configured. Valid workspaces: ${valid}`);
+}